@@ -0,0 +1,167 @@
+import { logger } from "./logger.ts";
+
+export type ApiKeyConfig = {
+  // Identifies the caller in logs; entries may share a name during rotation
+  name: string;
+  // Token sent as x-api-key or a bearer token
+  key?: string;
+  // Shared secret for HMAC-signed requests from servers
+  signingSecret?: string;
+  // dataTypes the caller may submit, or ["*"] for all
+  dataTypes: string[];
+  // Extra permissions, e.g. "admin" to read rows back
+  scopes?: string[];
+};
+
+// The caller a request was authenticated as
+export type ApiClient = {
+  name: string;
+  dataTypes: string[];
+  scopes: string[];
+  method: "key" | "signature";
+};
+
+export const ADMIN_SCOPE = "admin";
+
+export const SIGNATURE_HEADER = "x-signature";
+export const SIGNATURE_TIMESTAMP_HEADER = "x-signature-timestamp";
+export const SIGNATURE_KEY_ID_HEADER = "x-api-key-id";
+
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Reads the API keys from the API_KEYS environment variable (a JSON array),
+ * on every request so keys can be rotated by updating the secret. Returns
+ * undefined when API_KEYS is not set.
+ */
+export const loadApiKeys = (): ApiKeyConfig[] | undefined => {
+  const rawKeys = Deno.env.get("API_KEYS");
+  if (!rawKeys) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(rawKeys) as ApiKeyConfig[];
+    if (!Array.isArray(parsed)) {
+      throw new Error("API_KEYS must be a JSON array");
+    }
+    return parsed.filter(
+      (entry) =>
+        entry?.name &&
+        (entry.key || entry.signingSecret) &&
+        Array.isArray(entry.dataTypes)
+    );
+  } catch (error) {
+    // Fail closed: no key is accepted until the configuration is fixed
+    logger.error("Invalid API_KEYS, rejecting all API keys", { error });
+    return [];
+  }
+};
+
+export const hasScope = (client: ApiClient, scope: string): boolean =>
+  client.scopes.includes(scope);
+
+export const isDataTypeAllowed = (
+  client: ApiClient,
+  dataType: string
+): boolean =>
+  client.dataTypes.includes("*") || client.dataTypes.includes(dataType);
+
+// Compares secrets in time independent of where they first differ
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let difference = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    difference |= aBytes[i] ^ (bBytes[i % bBytes.length] ?? 0);
+  }
+  return difference === 0;
+};
+
+export const findApiKey = (
+  token: string,
+  keys: ApiKeyConfig[]
+): ApiKeyConfig | undefined =>
+  keys.find((entry) => entry.key && timingSafeEqual(entry.key, token));
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>", sent as "sha256=<hex>" in the
+ * X-Signature header
+ */
+export const signRequestBody = async (
+  secret: string,
+  timestamp: string,
+  body: string
+): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`)
+  );
+  return [...new Uint8Array(signature)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export type SignatureVerification =
+  | { valid: true; entry: ApiKeyConfig }
+  | { valid: false; error: string };
+
+/**
+ * Checks a signed request: the timestamp must be within the replay window
+ * (SIGNATURE_TOLERANCE_SECONDS, default 5 minutes) and the signature must
+ * match a signing secret of the named key
+ */
+export const verifyRequestSignature = async (
+  {
+    keyId,
+    timestamp,
+    signature,
+    body,
+  }: { keyId: string; timestamp: string; signature: string; body: string },
+  keys: ApiKeyConfig[],
+  now = Date.now()
+): Promise<SignatureVerification> => {
+  const configuredTolerance = Number(
+    Deno.env.get("SIGNATURE_TOLERANCE_SECONDS")
+  );
+  const toleranceSeconds =
+    configuredTolerance > 0
+      ? configuredTolerance
+      : DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+
+  const timestampSeconds = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(timestampSeconds)) {
+    return { valid: false, error: "Invalid signature timestamp" };
+  }
+  if (Math.abs(now / 1000 - timestampSeconds) > toleranceSeconds) {
+    return { valid: false, error: "Request signature expired" };
+  }
+
+  const providedSignature = signature.replace(/^sha256=/, "").toLowerCase();
+  // Try every secret of the key so old and new secrets overlap in rotation
+  for (const entry of keys) {
+    if (entry.name !== keyId || !entry.signingSecret) {
+      continue;
+    }
+    const expected = await signRequestBody(
+      entry.signingSecret,
+      timestamp,
+      body
+    );
+    if (timingSafeEqual(expected, providedSignature)) {
+      return { valid: true, entry };
+    }
+  }
+
+  return { valid: false, error: "Invalid request signature" };
+};
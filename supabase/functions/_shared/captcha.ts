@@ -0,0 +1,85 @@
+import { logger } from "./logger.ts";
+
+export const TURNSTILE_VERIFY_URL =
+  "https://challenges.cloudflare.com/turnstile/v0/siteverify";
+export const RECAPTCHA_VERIFY_URL =
+  "https://www.google.com/recaptcha/api/siteverify";
+
+// A slow provider counts as unavailable, see spam-check.ts
+const VERIFY_TIMEOUT_MS = 5000;
+
+export type CaptchaVerification = {
+  success: boolean;
+  errorCodes: string[];
+};
+
+// Checks a CAPTCHA token issued to the browser; stub it in tests
+export type CaptchaVerifier = {
+  verify: (token: string, remoteIp?: string) => Promise<CaptchaVerification>;
+};
+
+/**
+ * Verifier for siteverify-style APIs (Cloudflare Turnstile, Google
+ * reCAPTCHA), which take the secret and token as a form post
+ */
+export const createSiteVerifyCaptchaVerifier = ({
+  secret,
+  verifyUrl = TURNSTILE_VERIFY_URL,
+  timeoutMs = VERIFY_TIMEOUT_MS,
+}: {
+  secret: string;
+  verifyUrl?: string;
+  timeoutMs?: number;
+}): CaptchaVerifier => ({
+  verify: async (token, remoteIp) => {
+    const form = new URLSearchParams({ secret, response: token });
+    if (remoteIp && remoteIp !== "unknown") {
+      form.set("remoteip", remoteIp);
+    }
+
+    const response = await fetch(verifyUrl, {
+      method: "POST",
+      body: form,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `CAPTCHA verification failed (${
+          response.status
+        }): ${await response.text()}`
+      );
+    }
+
+    const body = (await response.json()) as {
+      success: boolean;
+      "error-codes"?: string[];
+    };
+    return {
+      success: body.success === true,
+      errorCodes: body["error-codes"] ?? [],
+    };
+  },
+});
+
+/**
+ * Verifier for CAPTCHA_PROVIDER (turnstile, the default, or recaptcha) using
+ * CAPTCHA_SECRET_KEY. Returns undefined when no secret is configured, e.g.
+ * in local development.
+ */
+export const createDefaultCaptchaVerifier = (): CaptchaVerifier | undefined => {
+  const secret = Deno.env.get("CAPTCHA_SECRET_KEY");
+  if (!secret) {
+    logger.warn(
+      "CAPTCHA_SECRET_KEY is not set, CAPTCHA tokens are not checked"
+    );
+    return undefined;
+  }
+
+  const provider = Deno.env.get("CAPTCHA_PROVIDER") || "turnstile";
+  return createSiteVerifyCaptchaVerifier({
+    secret,
+    verifyUrl:
+      Deno.env.get("CAPTCHA_VERIFY_URL") ||
+      (provider === "recaptcha" ? RECAPTCHA_VERIFY_URL : TURNSTILE_VERIFY_URL),
+  });
+};
@@ -0,0 +1,79 @@
+import type { CellValue } from "./google-sheets-client.ts";
+
+// Google Sheets rejects cells longer than this
+export const MAX_CELL_LENGTH = 50_000;
+
+// What sanitizing did to a cell
+export type CellChange = "control_characters" | "formula" | "truncated";
+
+export type CellAlteration = {
+  // Position of the row in the written rows
+  row: number;
+  column: string;
+  changes: CellChange[];
+};
+
+// C0 and C1 control characters other than tab and line feed
+// biome-ignore lint/suspicious/noControlCharactersInRegex: they are what it removes
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g;
+
+// Sheets parses values starting with these as formulas, also after spaces
+const FORMULA_PREFIX = /^\s*[=+\-@]/;
+
+/**
+ * Makes a user-supplied value safe to write with USER_ENTERED: strips control
+ * characters, prefixes formula-like strings with an apostrophe so Sheets shows
+ * them as text, and truncates to maxLength. Numbers and booleans are kept;
+ * only values that are already numbers are written as numbers.
+ */
+export const sanitizeCell = (
+  value: CellValue,
+  maxLength: number = MAX_CELL_LENGTH
+): { value: CellValue; changes: CellChange[] } => {
+  if (typeof value !== "string") {
+    return { value, changes: [] };
+  }
+
+  const changes: CellChange[] = [];
+  let sanitized = value.replace(CONTROL_CHARACTERS, "");
+  if (sanitized !== value) {
+    changes.push("control_characters");
+  }
+  // Also numeric strings such as E.164 phone numbers, which Sheets would
+  // otherwise turn into numbers and drop the "+"
+  if (FORMULA_PREFIX.test(sanitized)) {
+    sanitized = `'${sanitized}`;
+    changes.push("formula");
+  }
+  if (sanitized.length > maxLength) {
+    sanitized = sanitized.slice(0, maxLength);
+    changes.push("truncated");
+  }
+  return { value: sanitized, changes };
+};
+
+/**
+ * Sanitizes every cell of the rows, with per-column length limits that
+ * default to MAX_CELL_LENGTH; alterations name the cells without their values
+ */
+export const sanitizeRows = (
+  rows: Record<string, CellValue>[],
+  maxLengths: Record<string, number> = {}
+): { rows: Record<string, CellValue>[]; alterations: CellAlteration[] } => {
+  const alterations: CellAlteration[] = [];
+  const sanitizedRows = rows.map((row, index) =>
+    Object.fromEntries(
+      Object.entries(row).map(([column, value]) => {
+        const sanitized = sanitizeCell(
+          value,
+          Math.min(maxLengths[column] ?? MAX_CELL_LENGTH, MAX_CELL_LENGTH)
+        );
+        if (sanitized.changes.length > 0) {
+          alterations.push({ row: index, column, changes: sanitized.changes });
+        }
+        return [column, sanitized.value];
+      })
+    )
+  );
+  return { rows: sanitizedRows, alterations };
+};
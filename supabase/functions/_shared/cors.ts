@@ -1,6 +1,134 @@
+import { logger } from "./logger.ts";
+
+// Headers shared by every response; the allowed origin is added per request
 export const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, idempotency-key, x-request-id, x-api-key, prefer",
+  "Access-Control-Expose-Headers":
+    "retry-after, ratelimit-limit, ratelimit-remaining, ratelimit-reset, x-request-id",
+};
+
+export type CorsPolicy = {
+  // Exact origins or wildcard subdomains, e.g. https://*.example.com;
+  // ["*"] allows any origin
+  allowedOrigins: string[];
+};
+
+const ANY_ORIGIN = "*";
+
+// Environments where a missing allowlist allows any origin
+const DEVELOPMENT_ENVIRONMENTS = new Set(["local", "dev", "development"]);
+
+const normalizeOrigin = (origin: string): string =>
+  origin.trim().toLowerCase().replace(/\/+$/, "");
+
+const parseOriginList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : String(value).split(","))
+    .map((origin) => normalizeOrigin(String(origin)))
+    .filter(Boolean);
+
+/**
+ * Reads the allowed origins for the current environment (APP_ENV, default
+ * production) from CORS_ALLOWED_ORIGINS: either a comma separated list used
+ * everywhere, or JSON mapping each environment to its list, e.g.
+ * {"production": ["https://example.com"], "staging": ["https://*.example.dev"]}
+ * Without CORS_ALLOWED_ORIGINS browser requests are rejected, unless APP_ENV
+ * is local or dev.
+ */
+export const loadCorsPolicy = (): CorsPolicy => {
+  const rawOrigins = Deno.env.get("CORS_ALLOWED_ORIGINS")?.trim();
+  const environment = Deno.env.get("APP_ENV") || "production";
+  if (!rawOrigins) {
+    if (DEVELOPMENT_ENVIRONMENTS.has(environment)) {
+      logger.warn("CORS_ALLOWED_ORIGINS is not set, allowing any origin", {
+        environment,
+      });
+      return { allowedOrigins: [ANY_ORIGIN] };
+    }
+    // Fail closed: a forgotten secret must not open the function to every site
+    logger.error(
+      "CORS_ALLOWED_ORIGINS is not set, rejecting browser requests",
+      {
+        environment,
+      }
+    );
+    return { allowedOrigins: [] };
+  }
+
+  if (!rawOrigins.startsWith("{")) {
+    return { allowedOrigins: parseOriginList(rawOrigins) };
+  }
+
+  try {
+    const parsed = JSON.parse(rawOrigins) as Record<string, unknown>;
+    const origins = parsed[environment];
+    if (origins === undefined) {
+      logger.error("No allowed origins configured for environment", {
+        environment,
+      });
+      return { allowedOrigins: [] };
+    }
+    return { allowedOrigins: parseOriginList(origins) };
+  } catch (error) {
+    // Fail closed: a typo must not open the function to every site
+    logger.error("Invalid CORS_ALLOWED_ORIGINS, rejecting browser requests", {
+      error,
+    });
+    return { allowedOrigins: [] };
+  }
+};
+
+const matchesOrigin = (origin: string, pattern: string): boolean => {
+  if (pattern === ANY_ORIGIN || pattern === origin) {
+    return true;
+  }
+
+  const wildcardIndex = pattern.indexOf("*.");
+  if (wildcardIndex < 0) {
+    return false;
+  }
+
+  // https://*.example.com matches https://app.example.com, not example.com
+  const prefix = pattern.slice(0, wildcardIndex);
+  const suffix = pattern.slice(wildcardIndex + 1);
+  if (
+    origin.length <= prefix.length + suffix.length ||
+    !origin.startsWith(prefix) ||
+    !origin.endsWith(suffix)
+  ) {
+    return false;
+  }
+  const subdomain = origin.slice(prefix.length, origin.length - suffix.length);
+  return /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?$/.test(subdomain);
+};
+
+/**
+ * Whether a request may be served under the policy. Requests without an
+ * Origin header do not come from a browser page and are always allowed.
+ */
+export const isOriginAllowed = (
+  origin: string | null,
+  policy: CorsPolicy
+): boolean =>
+  !origin ||
+  policy.allowedOrigins.some((pattern) =>
+    matchesOrigin(normalizeOrigin(origin), pattern)
+  );
+
+/**
+ * Origin headers for a response: the request's origin echoed back when it
+ * is allowed, with Vary: Origin so caches keep responses per origin
+ */
+export const getCorsOriginHeaders = (
+  origin: string | null,
+  policy: CorsPolicy
+): Record<string, string> => {
+  if (policy.allowedOrigins.includes(ANY_ORIGIN)) {
+    return { "Access-Control-Allow-Origin": ANY_ORIGIN };
+  }
+  if (origin && isOriginAllowed(origin, policy)) {
+    return { "Access-Control-Allow-Origin": origin, Vary: "Origin" };
+  }
+  return { Vary: "Origin" };
 };
@@ -0,0 +1,17 @@
+// Helper function to check if EdgeRuntime exists and use waitUntil
+export const useEdgeRuntimeWaitUntil = async (
+  promise: Promise<unknown>
+): Promise<void> => {
+  // Check if EdgeRuntime exists with typeof to avoid reference errors
+  if (
+    typeof EdgeRuntime !== "undefined" &&
+    EdgeRuntime &&
+    "waitUntil" in EdgeRuntime
+  ) {
+    // @ts-ignore - We've checked that it exists and has waitUntil
+    EdgeRuntime.waitUntil(promise);
+  } else {
+    // If EdgeRuntime is not available, just await the promise
+    await promise;
+  }
+};
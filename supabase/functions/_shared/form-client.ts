@@ -0,0 +1,182 @@
+/**
+ * Typed client for the update-colorworks-google-sheet function, for frontends
+ * and other services. Must not use Deno APIs, like form-payloads.ts.
+ */
+import type {
+  AcceptedResponse,
+  BatchResponse,
+  ErrorResponse,
+  FieldError,
+  FormPayload,
+  SubmissionStatusResponse,
+  SubmitResponse,
+} from "./form-payloads.ts";
+
+export type FormClientOptions = {
+  // e.g. https://<project>.supabase.co/functions/v1/update-colorworks-google-sheet
+  baseUrl: string;
+  // Supabase anon key, sent as the bearer token
+  anonKey: string;
+  // Needed when the deployment sets API_KEYS
+  apiKey?: string;
+  // Including the first attempt
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type SubmitOptions = {
+  // Generated when missing; the same key is sent with every retry
+  idempotencyKey?: string;
+  // Answer with 202 and poll getSubmissionStatus
+  respondAsync?: boolean;
+  // Correlates the function's logs with the caller's
+  requestId?: string;
+};
+
+// Statuses worth retrying; the function answers 503 while Google is failing
+const RETRIABLE_STATUSES = [429, 502, 503, 504];
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// A 4xx or 5xx answer, or a network error after the last attempt
+export class FormApiError extends Error {
+  constructor(
+    message: string,
+    // 0 when no response was received
+    readonly status: number,
+    // A batch whose records all failed is answered with its BatchResponse
+    readonly body?: ErrorResponse | BatchResponse,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "FormApiError";
+  }
+
+  // Per-field problems of a 422 answer, to show next to the inputs
+  get fieldErrors(): FieldError[] {
+    return (this.body && "errors" in this.body && this.body.errors) || [];
+  }
+}
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  const seconds = Number(response.headers.get("Retry-After"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+const decodeError = async (response: Response): Promise<FormApiError> => {
+  let body: ErrorResponse | BatchResponse | undefined;
+  try {
+    body = await response.json();
+  } catch {
+    // Proxies may answer with HTML
+  }
+  const errorBody = body && "error" in body ? body : undefined;
+  return new FormApiError(
+    errorBody?.error ?? `Request failed with status ${response.status}`,
+    response.status,
+    body,
+    parseRetryAfter(response) ?? errorBody?.retryAfterSeconds
+  );
+};
+
+export const createFormClient = ({
+  baseUrl,
+  anonKey,
+  apiKey,
+  maxAttempts = 3,
+  baseDelayMs = 500,
+  maxDelayMs = 10_000,
+  fetch: fetchFn = fetch,
+  sleep = defaultSleep,
+}: FormClientOptions) => {
+  const url = (path: string) => `${baseUrl.replace(/\/+$/, "")}${path}`;
+
+  /**
+   * Sends the request until it gets an answer that is not retriable or runs
+   * out of attempts, waiting for Retry-After when given (up to maxDelayMs) and
+   * with exponential backoff otherwise
+   */
+  const request = async <T>(
+    path: string,
+    init: RequestInit,
+    headers: Record<string, string> = {}
+  ): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+      let error: FormApiError;
+      try {
+        const response = await fetchFn(url(path), {
+          ...init,
+          headers: {
+            Authorization: `Bearer ${anonKey}`,
+            ...(apiKey ? { "X-Api-Key": apiKey } : {}),
+            ...headers,
+          },
+        });
+        if (response.ok) {
+          return (await response.json()) as T;
+        }
+        error = await decodeError(response);
+        if (!RETRIABLE_STATUSES.includes(response.status)) {
+          throw error;
+        }
+      } catch (fetchError) {
+        if (fetchError instanceof FormApiError) {
+          throw fetchError;
+        }
+        error = new FormApiError((fetchError as Error).message, 0);
+      }
+
+      if (attempt >= maxAttempts) {
+        throw error;
+      }
+      const retryAfterMs = (error.retryAfterSeconds ?? 0) * 1000;
+      await sleep(
+        Math.min(maxDelayMs, retryAfterMs || baseDelayMs * 2 ** (attempt - 1))
+      );
+    }
+  };
+
+  const submitHeaders = (options: SubmitOptions): Record<string, string> => ({
+    "Content-Type": "application/json",
+    "Idempotency-Key": options.idempotencyKey ?? crypto.randomUUID(),
+    ...(options.respondAsync ? { Prefer: "respond-async" } : {}),
+    ...(options.requestId ? { "X-Request-Id": options.requestId } : {}),
+  });
+
+  return {
+    // Writes one submission; AcceptedResponse when respondAsync was set
+    submit: (
+      data: FormPayload,
+      options: SubmitOptions = {}
+    ): Promise<SubmitResponse | AcceptedResponse> =>
+      request(
+        "/",
+        { method: "POST", body: JSON.stringify({ data }) },
+        submitHeaders(options)
+      ),
+
+    // Resolves for partial failures too (207); check each record's result
+    submitBatch: (
+      records: FormPayload[],
+      options: Omit<SubmitOptions, "respondAsync"> = {}
+    ): Promise<BatchResponse> =>
+      request(
+        "/",
+        { method: "POST", body: JSON.stringify({ records }) },
+        submitHeaders(options)
+      ),
+
+    getSubmissionStatus: (
+      submissionId: string
+    ): Promise<SubmissionStatusResponse> =>
+      request(`/submissions/${encodeURIComponent(submissionId)}`, {
+        method: "GET",
+      }),
+  };
+};
+
+export type FormClient = ReturnType<typeof createFormClient>;
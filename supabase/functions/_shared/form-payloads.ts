@@ -0,0 +1,177 @@
+/**
+ * Payloads the forms send and the responses they get back, shared by the
+ * function, its OpenAPI document and the typed client. Must not use Deno APIs,
+ * as frontends import it too.
+ */
+
+// Options offered by the live event form
+export const EVENT_FORMATS = [
+  "Keynote",
+  "Workshop",
+  "Panel",
+  "Fireside Chat",
+  "Webinar",
+];
+export const LOCATION_TYPES = ["In person", "Virtual", "Hybrid"];
+
+// Sent by public forms for the spam checks
+export type SpamCheckFields = {
+  // Response of the CAPTCHA widget
+  captchaToken?: string;
+  // When the form was shown, as an ISO string or epoch milliseconds
+  formStartedAt?: string | number;
+  // Hidden field that people leave empty
+  honeypot?: string;
+};
+
+export type LiveEventData = SpamCheckFields & {
+  dataType: "live-event";
+  name: string;
+  email: string;
+  phoneNumber: string;
+  jobTitle?: string;
+  organizationName?: string;
+  websiteUrl?: string;
+  estimatedAttendees: number;
+  desiredContentType?: string;
+  desiredDuration?: string;
+  desiredFormats?: string[];
+  specialEventInfo?: {
+    type?: string;
+    eventTypes?: string[];
+    userDefinedEventType?: string;
+  };
+  locationInfo?: {
+    type?: string;
+    city?: string;
+    state?: string;
+    locationName?: string;
+  };
+  budget?: number;
+  // A single day or an inclusive range, as ISO 8601 dates
+  eventDate?: string | { startDate: string; endDate: string };
+  interestedInBulkAssessments?: boolean;
+  referralInfo?: {
+    source?: string;
+    moreInfo?: string;
+  };
+};
+
+export type BulkAssessmentData = SpamCheckFields & {
+  dataType: "bulk-assessment";
+  name: string;
+  email: string;
+  phoneNumber: string;
+  numberOfAssessments: number;
+};
+
+// Sent by our own backend; other fields are rejected
+export type UserSignupData = {
+  dataType: "user-signup";
+  email: string;
+  firstName: string;
+  lastName: string;
+  createdDate: string;
+};
+
+export type FormPayload = LiveEventData | BulkAssessmentData | UserSignupData;
+
+export const FIELD_ERROR_CODES = [
+  "required",
+  "invalid_type",
+  "invalid_format",
+  "too_small",
+  "too_large",
+  "invalid_value",
+  "invalid_range",
+  "unknown_field",
+] as const;
+
+export type FieldErrorCode = (typeof FIELD_ERROR_CODES)[number];
+
+// Shown by the frontend next to the input for `field`
+export type FieldError = {
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+};
+
+// Whether a submission added a row or updated the row with the same key
+export const ROW_OPERATIONS = ["appended", "updated"] as const;
+
+export type RowOperation = (typeof ROW_OPERATIONS)[number];
+
+export type SubmitResponse = {
+  success: true;
+  message: string;
+  operation: RowOperation;
+  // Google API requests retried after transient errors
+  retries: number;
+  // True when this is the stored result of an earlier identical request
+  replayed: boolean;
+};
+
+// Answer to "Prefer: respond-async"; poll the submission's status
+export type AcceptedResponse = {
+  success: true;
+  message: string;
+  submissionId: string;
+  status: "queued";
+  replayed: boolean;
+};
+
+export type BatchRecordResult = {
+  index: number;
+  dataType: string;
+  success: boolean;
+  // The primary tab the record was routed to
+  tabName?: string;
+  operation?: RowOperation;
+  error?: string;
+  // Per-field problems of a record that failed validation
+  errors?: FieldError[];
+  queuedForReplay?: boolean;
+};
+
+export type BatchResponse = {
+  success: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  retries: number;
+  results: BatchRecordResult[];
+  replayed: boolean;
+};
+
+export const SUBMISSION_STATES = ["queued", "written", "failed"] as const;
+
+export type SubmissionState = (typeof SUBMISSION_STATES)[number];
+
+export type SubmissionStatusResponse = {
+  success: true;
+  submissionId: string;
+  dataType: string;
+  tabName: string;
+  state: SubmissionState;
+  operation?: RowOperation;
+  rowNumber?: number;
+  rowUrl?: string;
+  error?: string;
+  // Whether a failed write was stored for replay
+  queuedForReplay?: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Body of every 4xx and 5xx response
+export type ErrorResponse = {
+  error: string;
+  details?: string;
+  // Set with 422 Unprocessable Content
+  errors?: FieldError[];
+  // Set with 503 while Google Sheets is failing
+  retryAfterSeconds?: number;
+  // Whether a failed write was stored for replay
+  queuedForReplay?: boolean;
+  retries?: number;
+};
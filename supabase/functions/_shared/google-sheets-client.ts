@@ -0,0 +1,401 @@
+import {
+  type AccessToken,
+  fetchAccessToken,
+  GoogleAuthError,
+  type ServiceAccountCredentials,
+} from "./google-auth.ts";
+import {
+  type CircuitBreaker,
+  createCircuitBreaker,
+  type RetryPolicy,
+  withRetry,
+} from "./retry.ts";
+
+export const GOOGLE_SHEETS_API_URL = "https://sheets.googleapis.com/v4";
+
+// Refresh tokens a minute before Google expires them
+const TOKEN_EXPIRY_MARGIN_MS = 60000;
+
+// Well under the edge function's 150s request limit
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  budgetMs: 15000,
+};
+
+// Each HTTP request is aborted after this long
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+// Quota, timeout and server errors that usually succeed when retried
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export type CellValue = string | number | boolean | null;
+
+export type SheetProperties = {
+  sheetId: number;
+  title: string;
+  index: number;
+  gridProperties: { rowCount: number; columnCount: number };
+};
+
+export type Spreadsheet = {
+  spreadsheetId: string;
+  properties: { title: string };
+  sheets: { properties: SheetProperties }[];
+};
+
+export type ValueRange = {
+  range: string;
+  majorDimension?: "ROWS" | "COLUMNS";
+  values?: CellValue[][];
+};
+
+export type AppendValuesResponse = {
+  spreadsheetId: string;
+  tableRange?: string;
+  updates: { updatedRange: string; updatedRows: number };
+};
+
+export type ValueInputOption = "RAW" | "USER_ENTERED";
+
+// Request objects for spreadsheets.batchUpdate, e.g. { addSheet: {...} }
+export type BatchUpdateRequest = Record<string, unknown>;
+
+export type BatchUpdateResponse = {
+  spreadsheetId: string;
+  replies: Record<string, unknown>[];
+};
+
+/**
+ * Error returned by the Sheets API, keeping the HTTP status and Google's
+ * error status (e.g. RESOURCE_EXHAUSTED) for callers to classify
+ */
+export class GoogleSheetsApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly reason?: string
+  ) {
+    super(message);
+    this.name = "GoogleSheetsApiError";
+  }
+}
+
+export type SheetsClientOptions = {
+  credentials: ServiceAccountCredentials;
+  // Point at a local stand-in for tests; defaults to GOOGLE_SHEETS_API_URL
+  baseUrl?: string;
+  tokenUrl?: string;
+  // Default to the GOOGLE_RETRY_* settings and the shared circuit breaker
+  retryPolicy?: RetryPolicy;
+  circuitBreaker?: CircuitBreaker;
+  // Called before each retried request, e.g. to report retry counts
+  onRetry?: () => void;
+  // Defaults to GOOGLE_REQUEST_TIMEOUT_MS
+  requestTimeoutMs?: number;
+  // Epoch ms after which no retry starts, shared by every request of the
+  // client; defaults to the retry budget from when the client was created
+  deadline?: number;
+};
+
+export type SheetsClient = {
+  authorize: () => Promise<string>;
+  getSpreadsheet: (spreadsheetId: string) => Promise<Spreadsheet>;
+  getValues: (spreadsheetId: string, range: string) => Promise<ValueRange>;
+  appendValues: (
+    spreadsheetId: string,
+    range: string,
+    values: CellValue[][],
+    valueInputOption?: ValueInputOption
+  ) => Promise<AppendValuesResponse>;
+  batchUpdateValues: (
+    spreadsheetId: string,
+    data: ValueRange[],
+    valueInputOption?: ValueInputOption
+  ) => Promise<void>;
+  batchUpdate: (
+    spreadsheetId: string,
+    requests: BatchUpdateRequest[]
+  ) => Promise<BatchUpdateResponse>;
+};
+
+/**
+ * Whether a failed request is worth retrying. Requests that are not
+ * idempotent, such as appends, are only retried when Google rejected them
+ * outright, as a server error may have applied them already.
+ */
+export const isTransientSheetsError = (
+  error: unknown,
+  idempotent = true
+): boolean => {
+  if (error instanceof GoogleSheetsApiError) {
+    return idempotent
+      ? TRANSIENT_STATUSES.has(error.status)
+      : error.status === 429;
+  }
+  // Token requests change nothing, so any server error may be retried
+  if (error instanceof GoogleAuthError) {
+    return TRANSIENT_STATUSES.has(error.status);
+  }
+  // fetch throws TypeError when the connection fails, and TimeoutError when
+  // its AbortSignal.timeout fires
+  const timedOut =
+    error instanceof DOMException && error.name === "TimeoutError";
+  return idempotent && (error instanceof TypeError || timedOut);
+};
+
+const getPositiveNumber = (envVar: string, fallback: number): number => {
+  const value = Number(Deno.env.get(envVar));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Retry settings from GOOGLE_RETRY_MAX_ATTEMPTS, GOOGLE_RETRY_BASE_DELAY_MS
+ * and GOOGLE_RETRY_BUDGET_MS
+ */
+export const loadRetryPolicy = (): RetryPolicy => ({
+  maxAttempts: getPositiveNumber(
+    "GOOGLE_RETRY_MAX_ATTEMPTS",
+    DEFAULT_RETRY_POLICY.maxAttempts
+  ),
+  baseDelayMs: getPositiveNumber(
+    "GOOGLE_RETRY_BASE_DELAY_MS",
+    DEFAULT_RETRY_POLICY.baseDelayMs
+  ),
+  maxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+  budgetMs: getPositiveNumber(
+    "GOOGLE_RETRY_BUDGET_MS",
+    DEFAULT_RETRY_POLICY.budgetMs
+  ),
+});
+
+/**
+ * Timeout of each Google request from GOOGLE_REQUEST_TIMEOUT_MS
+ */
+export const loadRequestTimeoutMs = (): number =>
+  getPositiveNumber("GOOGLE_REQUEST_TIMEOUT_MS", DEFAULT_REQUEST_TIMEOUT_MS);
+
+/**
+ * Deadline for the Google requests of one function request, so several
+ * writes share GOOGLE_RETRY_BUDGET_MS instead of each getting their own
+ */
+export const createRequestDeadline = (
+  policy: RetryPolicy = loadRetryPolicy()
+): number => Date.now() + policy.budgetMs;
+
+let sharedCircuitBreaker: CircuitBreaker | undefined;
+
+// Access tokens of this isolate by service account, shared by its clients
+const accessTokens = new Map<string, Promise<AccessToken>>();
+
+/**
+ * Circuit breaker shared by every Sheets client of the isolate, opened by
+ * GOOGLE_CIRCUIT_FAILURE_THRESHOLD (default 5) consecutive transient failures
+ * for GOOGLE_CIRCUIT_COOLDOWN_SECONDS (default 30)
+ */
+export const getSheetsCircuitBreaker = (): CircuitBreaker => {
+  sharedCircuitBreaker ??= createCircuitBreaker({
+    name: "Google Sheets",
+    failureThreshold: getPositiveNumber("GOOGLE_CIRCUIT_FAILURE_THRESHOLD", 5),
+    cooldownSeconds: getPositiveNumber("GOOGLE_CIRCUIT_COOLDOWN_SECONDS", 30),
+  });
+  return sharedCircuitBreaker;
+};
+
+/**
+ * Quotes a tab title for use in A1 notation, e.g. 'Live Events'!A1
+ */
+export const quoteSheetTitle = (title: string): string =>
+  `'${title.replace(/'/g, "''")}'`;
+
+/**
+ * Link opening a spreadsheet at a row of one of its tabs
+ */
+export const spreadsheetRowUrl = (
+  spreadsheetId: string,
+  sheetGid: number,
+  rowNumber: number
+): string =>
+  `https://docs.google.com/spreadsheets/d/${encodeURIComponent(
+    spreadsheetId
+  )}/edit#gid=${sheetGid}&range=A${rowNumber}`;
+
+/**
+ * Converts a zero-based column index to its A1 letter, e.g. 27 -> "AB"
+ */
+export const columnLetter = (index: number): string => {
+  let letter = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    letter = String.fromCharCode(65 + offset) + letter;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letter;
+};
+
+/**
+ * Small typed client for the Google Sheets v4 REST API, authenticating as a
+ * service account with a WebCrypto-signed JWT
+ */
+export const createSheetsClient = ({
+  credentials,
+  baseUrl = Deno.env.get("GOOGLE_SHEETS_API_URL") || GOOGLE_SHEETS_API_URL,
+  tokenUrl,
+  retryPolicy = loadRetryPolicy(),
+  circuitBreaker = getSheetsCircuitBreaker(),
+  onRetry,
+  requestTimeoutMs = loadRequestTimeoutMs(),
+  deadline = createRequestDeadline(retryPolicy),
+}: SheetsClientOptions): SheetsClient => {
+  const tokenKey = [
+    tokenUrl,
+    credentials.client_email,
+    credentials.private_key_id,
+  ].join("|");
+
+  // Reuses the isolate's token until shortly before it expires; concurrent
+  // callers share one token request
+  const fetchToken = async (): Promise<string> => {
+    let pending = accessTokens.get(tokenKey);
+    if (pending) {
+      const cached = await pending.catch(() => undefined);
+      if (!cached || cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS <= Date.now()) {
+        pending = undefined;
+      }
+    }
+    if (!pending) {
+      const request = withRetry(
+        () =>
+          fetchAccessToken(credentials, {
+            tokenUrl,
+            timeoutMs: requestTimeoutMs,
+          }),
+        {
+          policy: retryPolicy,
+          isRetriable: (error) => isTransientSheetsError(error),
+          onRetry,
+          deadline,
+        }
+      );
+      pending = request;
+      accessTokens.set(tokenKey, request);
+      request.catch(() => {
+        if (accessTokens.get(tokenKey) === request) {
+          accessTokens.delete(tokenKey);
+        }
+      });
+    }
+    return (await pending).token;
+  };
+
+  const isBreakerFailure = (error: unknown) => isTransientSheetsError(error);
+
+  const authorize = (): Promise<string> =>
+    circuitBreaker.execute(fetchToken, isBreakerFailure);
+
+  const send = async <T>(
+    path: string,
+    init: RequestInit,
+    token: string
+  ): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+      signal: AbortSignal.timeout(requestTimeoutMs),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        // Revoked or expired early; fetch a new token next time
+        accessTokens.delete(tokenKey);
+      }
+      const text = await response.text();
+      let message = text;
+      let reason: string | undefined;
+      try {
+        const body = JSON.parse(text) as {
+          error?: { message?: string; status?: string };
+        };
+        message = body.error?.message ?? text;
+        reason = body.error?.status;
+      } catch {
+        // Not JSON, keep the raw text
+      }
+      throw new GoogleSheetsApiError(
+        `Google Sheets API error (${response.status}): ${message}`,
+        response.status,
+        reason
+      );
+    }
+
+    return (await response.json()) as T;
+  };
+
+  // Retries transient failures and fails fast while Google is down
+  const request = <T>(
+    path: string,
+    init: RequestInit = {},
+    idempotent = true
+  ): Promise<T> =>
+    circuitBreaker.execute(async () => {
+      const token = await fetchToken();
+      return withRetry(() => send<T>(path, init, token), {
+        policy: retryPolicy,
+        isRetriable: (error) => isTransientSheetsError(error, idempotent),
+        onRetry,
+        deadline,
+      });
+    }, isBreakerFailure);
+
+  const spreadsheetPath = (spreadsheetId: string) =>
+    `/spreadsheets/${encodeURIComponent(spreadsheetId)}`;
+
+  return {
+    authorize,
+    getSpreadsheet: (spreadsheetId) =>
+      request<Spreadsheet>(
+        `${spreadsheetPath(spreadsheetId)}?fields=${encodeURIComponent(
+          "spreadsheetId,properties.title,sheets.properties"
+        )}`
+      ),
+    getValues: (spreadsheetId, range) =>
+      request<ValueRange>(
+        `${spreadsheetPath(spreadsheetId)}/values/${encodeURIComponent(range)}`
+      ),
+    appendValues: (
+      spreadsheetId,
+      range,
+      values,
+      valueInputOption = "USER_ENTERED"
+    ) =>
+      request<AppendValuesResponse>(
+        `${spreadsheetPath(spreadsheetId)}/values/${encodeURIComponent(
+          range
+        )}:append?valueInputOption=${valueInputOption}&insertDataOption=INSERT_ROWS`,
+        { method: "POST", body: JSON.stringify({ values }) },
+        false
+      ),
+    batchUpdateValues: async (
+      spreadsheetId,
+      data,
+      valueInputOption = "USER_ENTERED"
+    ) => {
+      await request(`${spreadsheetPath(spreadsheetId)}/values:batchUpdate`, {
+        method: "POST",
+        body: JSON.stringify({ valueInputOption, data }),
+      });
+    },
+    batchUpdate: (spreadsheetId, requests) =>
+      request<BatchUpdateResponse>(
+        `${spreadsheetPath(spreadsheetId)}:batchUpdate`,
+        { method: "POST", body: JSON.stringify({ requests }) },
+        false
+      ),
+  };
+};
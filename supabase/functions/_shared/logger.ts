@@ -0,0 +1,208 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  // Logger that adds the given fields to every line
+  child: (bindings: LogFields) => Logger;
+};
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export const REDACTED = "[REDACTED]";
+
+// Field names are compared lowercased with separators removed, so "Phone
+// Number", "phoneNumber" and "phone_number" all match "phonenumber"
+const DEFAULT_REDACTED_FIELDS = [
+  "email",
+  "phone",
+  "phonenumber",
+  "name",
+  "firstname",
+  "lastname",
+  "authorization",
+  "xforwardedfor",
+  "xrealip",
+  "clientip",
+  "apikey",
+  "xapikey",
+  "xsignature",
+  "signingsecret",
+  "cookie",
+  "password",
+  "secret",
+  "token",
+  "accesstoken",
+  "privatekey",
+  "clientemail",
+];
+
+// Patterns masked inside free text, e.g. error messages quoting a value
+const SENSITIVE_PATTERNS: [RegExp, string][] = [
+  [
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+    "[REDACTED_PRIVATE_KEY]",
+  ],
+  [/\bBearer\s+[\w.~+/=-]+/gi, `Bearer ${REDACTED}`],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, "[REDACTED_TOKEN]"],
+  [/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, "[REDACTED_EMAIL]"],
+];
+
+// Nested values deeper than this are not logged
+const MAX_DEPTH = 8;
+
+const normalizeFieldName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Fields masked in every log line: the defaults plus any comma separated
+ * names in LOG_REDACT_FIELDS
+ */
+const getRedactedFields = (): Set<string> =>
+  new Set(
+    [
+      ...DEFAULT_REDACTED_FIELDS,
+      ...(Deno.env.get("LOG_REDACT_FIELDS") ?? "").split(","),
+    ]
+      .map(normalizeFieldName)
+      .filter(Boolean)
+  );
+
+const getLogLevel = (): LogLevel => {
+  const level = Deno.env.get("LOG_LEVEL")?.toLowerCase();
+  return level && level in LOG_LEVELS ? (level as LogLevel) : "info";
+};
+
+const redactString = (value: string): string =>
+  SENSITIVE_PATTERNS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    value
+  );
+
+// Objects kept as JSON text, e.g. the Submission column of quarantined rows
+const parseEmbeddedJson = (value: string): object | undefined => {
+  if (!/^\s*[[{]/.test(value)) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return typeof parsed === "object" && parsed !== null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const redactValue = (
+  value: unknown,
+  fields: Set<string>,
+  depth: number
+): unknown => {
+  if (typeof value === "string") {
+    // Field names inside JSON text are redacted like those of objects
+    const embedded = parseEmbeddedJson(value);
+    return embedded
+      ? JSON.stringify(redactValue(embedded, fields, depth + 1))
+      : redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack && redactString(value.stack),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, fields, depth + 1));
+  }
+  if (value instanceof Headers) {
+    return redactValue(Object.fromEntries(value.entries()), fields, depth);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, fieldValue]) => [
+      key,
+      fields.has(normalizeFieldName(key))
+        ? REDACTED
+        : redactValue(fieldValue, fields, depth + 1),
+    ])
+  );
+};
+
+/**
+ * Masks sensitive fields and values (emails, tokens, private keys) so they
+ * never reach the logs
+ */
+export const redact = (value: unknown): unknown =>
+  redactValue(value, getRedactedFields(), 0);
+
+const requestContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Runs fn with fields, such as the request ID, added to every line logged
+ * while it runs, including from other modules
+ */
+export const runWithLogContext = <T>(context: LogFields, fn: () => T): T =>
+  requestContext.run(context, fn);
+
+// Fields of the surrounding runWithLogContext call, e.g. the request ID
+export const getLogContext = (): LogFields => requestContext.getStore() ?? {};
+
+const CONSOLE_METHODS: Record<LogLevel, (line: string) => void> = {
+  debug: (line) => console.debug(line),
+  info: (line) => console.info(line),
+  warn: (line) => console.warn(line),
+  error: (line) => console.error(line),
+};
+
+/**
+ * Structured logger writing one redacted JSON object per line. LOG_LEVEL
+ * (debug, info, warn or error) sets the lowest level written.
+ */
+export const createLogger = (bindings: LogFields = {}): Logger => {
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LOG_LEVELS[level] < LOG_LEVELS[getLogLevel()]) {
+      return;
+    }
+
+    const entry = redact({
+      ...requestContext.getStore(),
+      ...bindings,
+      ...fields,
+    }) as LogFields;
+    CONSOLE_METHODS[level](
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        level,
+        message: redactString(message),
+        ...entry,
+      })
+    );
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+  };
+};
+
+export const logger = createLogger();
@@ -0,0 +1,392 @@
+import { getLogContext, logger } from "./logger.ts";
+import { createSmtpTransport, type EmailTransport } from "./smtp.ts";
+
+export type Severity = "info" | "warning" | "error" | "critical";
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+  critical: 3,
+};
+
+const SEVERITY_EMOJI: Record<Severity, string> = {
+  info: "ℹ️",
+  warning: "⚠️",
+  error: "🚨",
+  critical: "🔥",
+};
+
+export type Notification = {
+  severity: Severity;
+  // Short summary, e.g. "Google Sheets write failed"
+  title: string;
+  message: string;
+  dataType?: string;
+  tabName?: string;
+  // Name of the error that caused it, e.g. GoogleSheetsApiError
+  errorClass?: string;
+  // Defaults to the request being handled
+  requestId?: string;
+  // Details to show prominently, e.g. a summary of a new lead
+  fields?: Record<string, string>;
+  // Link to what the notification is about, e.g. the row in the sheet
+  url?: string;
+  // Notifications with the same key are deduplicated; defaults to the
+  // severity, title, message, data type and tab
+  dedupKey?: string;
+};
+
+// What channels receive: the notification plus how often it was suppressed
+export type SentNotification = Notification & {
+  timestamp: string;
+  // Identical notifications suppressed since this one was last sent
+  repeatCount: number;
+};
+
+export type NotificationChannel = {
+  name: string;
+  // Lower severities are not sent to this channel
+  minSeverity: Severity;
+  send: (notification: SentNotification) => Promise<void>;
+};
+
+export type Notifier = {
+  notify: (notification: Notification) => Promise<void>;
+};
+
+const DEFAULT_DEDUP_WINDOW_SECONDS = 300;
+
+const isSeverity = (value: unknown): value is Severity =>
+  typeof value === "string" && value in SEVERITY_RANK;
+
+const getSeverity = (envVar: string, fallback: Severity): Severity => {
+  const value = Deno.env.get(envVar);
+  return isSeverity(value) ? value : fallback;
+};
+
+// Details shown by every channel, in order
+const describeFields = (notification: SentNotification): [string, string][] =>
+  (
+    [
+      ["Severity", notification.severity],
+      ["Data Type", notification.dataType],
+      ["Tab", notification.tabName],
+      ["Error", notification.errorClass],
+      ["Request ID", notification.requestId],
+    ] as [string, string | undefined][]
+  ).filter((field): field is [string, string] => Boolean(field[1]));
+
+const describeRepeats = (notification: SentNotification): string =>
+  `Repeated ${notification.repeatCount} more time${
+    notification.repeatCount === 1 ? "" : "s"
+  } since the last alert`;
+
+const truncate = (value: string, length: number): string =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+// Form values reach alerts, so they must not ping channels or forge links
+export const escapeMrkdwn = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Alerts are sent in the background, but must not hold the isolate open
+const NOTIFICATION_TIMEOUT_MS = 10000;
+
+const postJson = async (url: string, body: unknown): Promise<void> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(NOTIFICATION_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Notification request failed (${
+        response.status
+      }): ${await response.text()}`
+    );
+  }
+};
+
+/**
+ * Slack incoming webhook message laid out with Block Kit; the plain text is
+ * shown in push notifications and clients without blocks
+ */
+export const formatSlackMessage = (notification: SentNotification) => {
+  const emoji = SEVERITY_EMOJI[notification.severity];
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: truncate(`${emoji} ${notification.title}`, 150),
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: truncate(escapeMrkdwn(notification.message), 3000),
+      },
+    },
+  ];
+
+  // Slack shows at most 10 fields per section
+  const fields = notification.fields
+    ? Object.entries(notification.fields)
+    : describeFields(notification);
+  blocks.push({
+    type: "section",
+    fields: fields.slice(0, 10).map(([label, value]) => ({
+      type: "mrkdwn",
+      text: `*${escapeMrkdwn(label)}*\n${truncate(
+        escapeMrkdwn(value || "-"),
+        1900
+      )}`,
+    })),
+  });
+  if (notification.url) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `<${notification.url}|Open in Google Sheets>`,
+      },
+    });
+  }
+
+  const context = notification.fields
+    ? [
+        describeFields(notification)
+          .map(([label, value]) => escapeMrkdwn(`${label}: ${value}`))
+          .join(" · "),
+      ]
+    : [];
+  if (notification.repeatCount > 0) {
+    context.push(describeRepeats(notification));
+  }
+  if (context.length > 0) {
+    blocks.push({
+      type: "context",
+      elements: context.map((text) => ({ type: "mrkdwn", text })),
+    });
+  }
+
+  return {
+    text: `${emoji} *${escapeMrkdwn(notification.title)}:* ${escapeMrkdwn(
+      notification.message
+    )}`,
+    blocks,
+  };
+};
+
+export const createSlackChannel = ({
+  webhookUrl,
+  minSeverity = "warning",
+}: {
+  webhookUrl: string;
+  minSeverity?: Severity;
+}): NotificationChannel => ({
+  name: "slack",
+  minSeverity,
+  send: (notification) =>
+    postJson(webhookUrl, formatSlackMessage(notification)),
+});
+
+// Posts the notification as JSON, e.g. to an incident tool
+export const createWebhookChannel = ({
+  url,
+  minSeverity = "warning",
+}: {
+  url: string;
+  minSeverity?: Severity;
+}): NotificationChannel => ({
+  name: "webhook",
+  minSeverity,
+  send: (notification) => {
+    const { dedupKey: _dedupKey, ...body } = notification;
+    return postJson(url, body);
+  },
+});
+
+export const createEmailChannel = ({
+  transport,
+  from,
+  to,
+  minSeverity = "error",
+}: {
+  transport: EmailTransport;
+  from: string;
+  to: string[];
+  minSeverity?: Severity;
+}): NotificationChannel => ({
+  name: "email",
+  minSeverity,
+  send: (notification) => {
+    const lines = [
+      notification.message,
+      "",
+      ...[
+        ...Object.entries(notification.fields ?? {}),
+        ...describeFields(notification),
+      ].map(([label, value]) => `${label}: ${value}`),
+      `Time: ${notification.timestamp}`,
+    ];
+    if (notification.url) {
+      lines.push(`Link: ${notification.url}`);
+    }
+    if (notification.repeatCount > 0) {
+      lines.push("", describeRepeats(notification));
+    }
+    return transport.send({
+      from,
+      to,
+      subject: `[${notification.severity.toUpperCase()}] ${notification.title}`,
+      text: lines.join("\n"),
+    });
+  },
+});
+
+/**
+ * Sends notifications to every channel whose minimum severity they reach.
+ * An identical notification within the dedup window is counted instead of
+ * sent, so an outage produces one alert per window rather than one per
+ * request. The window is kept per isolate.
+ */
+export const createNotifier = ({
+  channels,
+  dedupWindowSeconds = DEFAULT_DEDUP_WINDOW_SECONDS,
+  now = Date.now,
+}: {
+  channels: NotificationChannel[];
+  dedupWindowSeconds?: number;
+  now?: () => number;
+}): Notifier => {
+  const recent = new Map<string, { sentAt: number; suppressed: number }>();
+
+  return {
+    notify: async (notification) => {
+      const time = now();
+      const windowMs = dedupWindowSeconds * 1000;
+      // Expired entries are kept while they have repeats to report
+      for (const [key, entry] of recent) {
+        if (time - entry.sentAt >= windowMs && entry.suppressed === 0) {
+          recent.delete(key);
+        }
+      }
+
+      const dedupKey =
+        notification.dedupKey ??
+        [
+          notification.severity,
+          notification.title,
+          notification.message,
+          notification.dataType,
+          notification.tabName,
+        ].join("|");
+      const previous = recent.get(dedupKey);
+      if (previous && time - previous.sentAt < windowMs) {
+        previous.suppressed++;
+        logger.info("Duplicate notification suppressed", {
+          title: notification.title,
+          suppressed: previous.suppressed,
+        });
+        return;
+      }
+
+      recent.set(dedupKey, { sentAt: time, suppressed: 0 });
+
+      const requestId = getLogContext().requestId;
+      const sent: SentNotification = {
+        ...notification,
+        requestId:
+          notification.requestId ??
+          (typeof requestId === "string" ? requestId : undefined),
+        timestamp: new Date(time).toISOString(),
+        repeatCount: previous?.suppressed ?? 0,
+      };
+
+      await Promise.all(
+        channels
+          .filter(
+            (channel) =>
+              SEVERITY_RANK[notification.severity] >=
+              SEVERITY_RANK[channel.minSeverity]
+          )
+          .map(async (channel) => {
+            try {
+              await channel.send(sent);
+            } catch (error) {
+              logger.error("Failed to send notification", {
+                channel: channel.name,
+                error,
+              });
+            }
+          })
+      );
+    },
+  };
+};
+
+/**
+ * Notifier for the channels configured in the environment: Slack
+ * (SLACK_WEBHOOK_URL), a generic webhook (NOTIFY_WEBHOOK_URL) and email over
+ * SMTP (SMTP_HOST and NOTIFY_EMAIL_TO). Each channel's minimum severity can be
+ * set with SLACK_MIN_SEVERITY, NOTIFY_WEBHOOK_MIN_SEVERITY and
+ * NOTIFY_EMAIL_MIN_SEVERITY.
+ */
+export const createDefaultNotifier = (): Notifier => {
+  const channels: NotificationChannel[] = [];
+
+  const slackWebhookUrl = Deno.env.get("SLACK_WEBHOOK_URL");
+  if (slackWebhookUrl) {
+    channels.push(
+      createSlackChannel({
+        webhookUrl: slackWebhookUrl,
+        minSeverity: getSeverity("SLACK_MIN_SEVERITY", "warning"),
+      })
+    );
+  }
+
+  const webhookUrl = Deno.env.get("NOTIFY_WEBHOOK_URL");
+  if (webhookUrl) {
+    channels.push(
+      createWebhookChannel({
+        url: webhookUrl,
+        minSeverity: getSeverity("NOTIFY_WEBHOOK_MIN_SEVERITY", "warning"),
+      })
+    );
+  }
+
+  const smtpHost = Deno.env.get("SMTP_HOST");
+  const emailTo = Deno.env.get("NOTIFY_EMAIL_TO");
+  if (smtpHost && emailTo) {
+    const port = Number(Deno.env.get("SMTP_PORT")) || 465;
+    channels.push(
+      createEmailChannel({
+        transport: createSmtpTransport({
+          hostname: smtpHost,
+          port,
+          tls: (Deno.env.get("SMTP_TLS") ?? String(port === 465)) === "true",
+          username: Deno.env.get("SMTP_USERNAME"),
+          password: Deno.env.get("SMTP_PASSWORD"),
+          allowPlaintext: Deno.env.get("SMTP_ALLOW_PLAINTEXT") === "true",
+        }),
+        from: Deno.env.get("NOTIFY_EMAIL_FROM") || `alerts@${smtpHost}`,
+        to: emailTo.split(",").map((address) => address.trim()),
+        minSeverity: getSeverity("NOTIFY_EMAIL_MIN_SEVERITY", "error"),
+      })
+    );
+  }
+
+  if (channels.length === 0) {
+    logger.warn("No notification channels configured, alerts are only logged");
+  }
+
+  return createNotifier({
+    channels,
+    dedupWindowSeconds:
+      Number(Deno.env.get("NOTIFY_DEDUP_WINDOW_SECONDS")) ||
+      DEFAULT_DEDUP_WINDOW_SECONDS,
+  });
+};
@@ -0,0 +1,265 @@
+import { logger } from "./logger.ts";
+import { supabaseRest } from "./supabase-rest.ts";
+
+export type RateLimitRule = {
+  limit: number; // Number of requests allowed
+  windowSeconds: number; // Time window the limit applies to
+};
+
+export type RateLimitConfig = {
+  default: RateLimitRule;
+  // Limits per route, e.g. "submit" or "replay"; falls back to the default
+  routes: Record<string, RateLimitRule>;
+  // Extra limits per dataType, applied on top of the route limit
+  dataTypes: Record<string, RateLimitRule>;
+  // IPs or IPv4 CIDR ranges that are never limited, e.g. a corporate NAT
+  allowlist: string[];
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+};
+
+// Counts hits per key within a fixed window
+export type RateLimitStore = {
+  hit: (
+    key: string,
+    windowSeconds: number
+  ) => Promise<{ count: number; resetAt: number }>;
+};
+
+const DEFAULT_RULE: RateLimitRule = { limit: 10, windowSeconds: 60 };
+const SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * Reads limits from the RATE_LIMIT_CONFIG environment variable (JSON),
+ * keeping the built-in default of 10 requests per minute for anything unset
+ */
+export const loadRateLimitConfig = (): RateLimitConfig => {
+  const config: RateLimitConfig = {
+    default: DEFAULT_RULE,
+    routes: {},
+    dataTypes: {},
+    allowlist: [],
+  };
+
+  const rawConfig = Deno.env.get("RATE_LIMIT_CONFIG");
+  if (!rawConfig) {
+    return config;
+  }
+
+  try {
+    const parsed = JSON.parse(rawConfig) as Partial<RateLimitConfig>;
+    return {
+      default: parsed.default ?? config.default,
+      routes: parsed.routes ?? config.routes,
+      dataTypes: parsed.dataTypes ?? config.dataTypes,
+      allowlist: parsed.allowlist ?? config.allowlist,
+    };
+  } catch (error) {
+    logger.error("Invalid RATE_LIMIT_CONFIG, using default limits", { error });
+    return config;
+  }
+};
+
+/**
+ * In-memory store, per isolate. Used for tests and as a fallback when the
+ * database is unavailable. Expired entries are evicted periodically.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const entries = new Map<string, { count: number; resetAt: number }>();
+  let lastSweep = Date.now();
+
+  return {
+    hit: (key, windowSeconds) => {
+      const now = Date.now();
+
+      if (now - lastSweep > SWEEP_INTERVAL_MS) {
+        for (const [entryKey, entry] of entries) {
+          if (entry.resetAt <= now) {
+            entries.delete(entryKey);
+          }
+        }
+        lastSweep = now;
+      }
+
+      const entry = entries.get(key);
+      if (!entry || entry.resetAt <= now) {
+        const fresh = { count: 1, resetAt: now + windowSeconds * 1000 };
+        entries.set(key, fresh);
+        return Promise.resolve({ ...fresh });
+      }
+
+      entry.count++;
+      return Promise.resolve({ ...entry });
+    },
+  };
+};
+
+/**
+ * Store shared by all isolates, backed by the rate_limit_hit database
+ * function. Falls back to an in-memory count if the database call fails.
+ */
+export const createPostgresRateLimitStore = (): RateLimitStore => {
+  const fallback = createMemoryRateLimitStore();
+
+  return {
+    hit: async (key, windowSeconds) => {
+      try {
+        const rows = await supabaseRest<
+          { hit_count: number; reset_at: string }[]
+        >("rpc/rate_limit_hit", {
+          method: "POST",
+          body: JSON.stringify({
+            p_key: key,
+            p_window_seconds: windowSeconds,
+          }),
+        });
+        const row = rows?.[0];
+        if (!row) {
+          throw new Error("rate_limit_hit returned no rows");
+        }
+        return { count: row.hit_count, resetAt: Date.parse(row.reset_at) };
+      } catch (error) {
+        logger.error("Rate limit store unavailable, using in-memory limits", {
+          error,
+        });
+        return fallback.hit(key, windowSeconds);
+      }
+    },
+  };
+};
+
+// Postgres when the database is configured, otherwise in-memory
+export const createDefaultRateLimitStore = (): RateLimitStore => {
+  const storeType =
+    Deno.env.get("RATE_LIMIT_STORE") ??
+    (Deno.env.get("SUPABASE_URL") && Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+      ? "postgres"
+      : "memory");
+
+  return storeType === "postgres"
+    ? createPostgresRateLimitStore()
+    : createMemoryRateLimitStore();
+};
+
+/**
+ * Client IP as seen by our own proxies: the header named by CLIENT_IP_HEADER
+ * when the platform sets one, otherwise the x-forwarded-for entry added by the
+ * outermost trusted proxy, TRUSTED_PROXY_HOPS (default 1) from the end.
+ * Earlier entries come from the client and are ignored, so it cannot pick its
+ * own bucket or an allowlisted address.
+ */
+export const getClientIp = (req: Request): string => {
+  const clientIpHeader = Deno.env.get("CLIENT_IP_HEADER");
+  if (clientIpHeader) {
+    return req.headers.get(clientIpHeader)?.trim() || "unknown";
+  }
+
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const hops = Math.max(1, Number(Deno.env.get("TRUSTED_PROXY_HOPS")) || 1);
+  const proxyAdded = forwarded[Math.max(0, forwarded.length - hops)];
+  if (proxyAdded) {
+    return proxyAdded;
+  }
+  return req.headers.get("x-real-ip")?.trim() || "unknown";
+};
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+const ipv4ToNumber = (ip: string): number | undefined => {
+  const match = ip.match(IPV4_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) {
+    return undefined;
+  }
+  return octets.reduce((acc, octet) => acc * 256 + octet, 0);
+};
+
+export const isIpAllowlisted = (ip: string, allowlist: string[]): boolean =>
+  allowlist.some((entry) => {
+    if (!entry.includes("/")) {
+      return entry === ip;
+    }
+
+    const [base, bitsText] = entry.split("/");
+    const bits = Number(bitsText);
+    const ipNumber = ipv4ToNumber(ip);
+    const baseNumber = ipv4ToNumber(base);
+    if (
+      ipNumber === undefined ||
+      baseNumber === undefined ||
+      !Number.isInteger(bits) ||
+      bits < 0 ||
+      bits > 32
+    ) {
+      return false;
+    }
+
+    const blockSize = 2 ** (32 - bits);
+    return (
+      Math.floor(ipNumber / blockSize) === Math.floor(baseNumber / blockSize)
+    );
+  });
+
+/**
+ * Standard rate limit headers for a decision, including Retry-After when
+ * the request was rejected
+ */
+export const rateLimitHeaders = (
+  decision: RateLimitDecision
+): Record<string, string> => ({
+  "RateLimit-Limit": String(decision.limit),
+  "RateLimit-Remaining": String(decision.remaining),
+  "RateLimit-Reset": String(decision.resetSeconds),
+  ...(decision.allowed ? {} : { "Retry-After": String(decision.resetSeconds) }),
+});
+
+export type RateLimiter = {
+  // Returns undefined when the client is allowlisted or no rule applies
+  check: (
+    clientIp: string,
+    scope: { route: string } | { dataType: string }
+  ) => Promise<RateLimitDecision | undefined>;
+};
+
+export const createRateLimiter = (
+  store: RateLimitStore = createDefaultRateLimitStore(),
+  config: RateLimitConfig = loadRateLimitConfig()
+): RateLimiter => ({
+  check: async (clientIp, scope) => {
+    if (isIpAllowlisted(clientIp, config.allowlist)) {
+      return undefined;
+    }
+
+    let key: string;
+    let rule: RateLimitRule | undefined;
+    if ("route" in scope) {
+      key = `route:${scope.route}:${clientIp}`;
+      rule = config.routes[scope.route] ?? config.default;
+    } else {
+      key = `dataType:${scope.dataType}:${clientIp}`;
+      rule = config.dataTypes[scope.dataType];
+    }
+    if (!rule) {
+      return undefined;
+    }
+
+    const { count, resetAt } = await store.hit(key, rule.windowSeconds);
+    return {
+      allowed: count <= rule.limit,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - count),
+      resetSeconds: Math.max(0, Math.ceil((resetAt - Date.now()) / 1000)),
+    };
+  },
+});
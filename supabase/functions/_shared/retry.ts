@@ -0,0 +1,185 @@
+import { logger } from "./logger.ts";
+
+export type RetryPolicy = {
+  // Including the first attempt
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // No retry starts once this much time has passed since the first attempt
+  budgetMs: number;
+};
+
+export type RetryOptions = {
+  policy: RetryPolicy;
+  isRetriable: (error: unknown) => boolean;
+  // Called before each retry, e.g. to count them
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+  // Epoch ms after which no retry starts, shared by the calls of one request;
+  // otherwise each call gets the policy's budgetMs of its own
+  deadline?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  random?: () => number;
+};
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter: a random delay up to the doubled
+ * base delay, so clients that failed together do not retry together
+ */
+export const backoffDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number =>
+  Math.round(
+    random() *
+      Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  );
+
+/**
+ * Runs the operation until it succeeds, fails with an error that is not
+ * retriable, or runs out of attempts, time budget or the deadline; the last
+ * error is thrown
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  {
+    policy,
+    isRetriable,
+    onRetry,
+    deadline = Number.POSITIVE_INFINITY,
+    sleep = defaultSleep,
+    now = Date.now,
+    random = Math.random,
+  }: RetryOptions
+): Promise<T> => {
+  const stopAt = Math.min(now() + policy.budgetMs, deadline);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const delayMs = backoffDelay(attempt, policy, random);
+      if (
+        attempt >= policy.maxAttempts ||
+        !isRetriable(error) ||
+        now() + delayMs > stopAt
+      ) {
+        throw error;
+      }
+
+      logger.warn("Retrying after transient error", {
+        attempt,
+        delayMs,
+        error,
+      });
+      onRetry?.(attempt, error, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Thrown instead of calling a dependency while its circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly circuit: string, readonly retryAfterSeconds: number) {
+    super(
+      `${circuit} is temporarily unavailable, retry in ${retryAfterSeconds}s`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+export type CircuitBreakerOptions = {
+  // Used in errors and logs, e.g. "Google Sheets"
+  name: string;
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit fails fast before letting one call through
+  cooldownSeconds: number;
+  now?: () => number;
+};
+
+export type CircuitBreaker = {
+  // isFailure decides which errors count towards opening the circuit
+  execute: <T>(
+    operation: () => Promise<T>,
+    isFailure: (error: unknown) => boolean
+  ) => Promise<T>;
+  state: () => CircuitState;
+};
+
+/**
+ * Stops calling a failing dependency after repeated failures. Once the
+ * cooldown has passed a single trial call is let through: success closes the
+ * circuit, failure opens it again. State is kept per isolate.
+ */
+export const createCircuitBreaker = ({
+  name,
+  failureThreshold,
+  cooldownSeconds,
+  now = Date.now,
+}: CircuitBreakerOptions): CircuitBreaker => {
+  let failures = 0;
+  let openedAt: number | undefined;
+  let trialInFlight = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === undefined) {
+      return "closed";
+    }
+    return now() - openedAt >= cooldownSeconds * 1000 ? "half-open" : "open";
+  };
+
+  const open = () => {
+    openedAt = now();
+    logger.error("Circuit opened", { circuit: name, failures });
+  };
+
+  const close = () => {
+    if (openedAt !== undefined) {
+      logger.info("Circuit closed", { circuit: name });
+    }
+    failures = 0;
+    openedAt = undefined;
+  };
+
+  return {
+    state,
+    execute: async (operation, isFailure) => {
+      const current = state();
+      if (current === "open" || (current === "half-open" && trialInFlight)) {
+        const remainingMs = (openedAt ?? 0) + cooldownSeconds * 1000 - now();
+        throw new CircuitOpenError(
+          name,
+          Math.max(1, Math.ceil(remainingMs / 1000))
+        );
+      }
+
+      const isTrial = current === "half-open";
+      trialInFlight = isTrial;
+      try {
+        const result = await operation();
+        close();
+        return result;
+      } catch (error) {
+        if (!isFailure(error)) {
+          // The dependency answered, e.g. with a validation error
+          close();
+        } else if (++failures >= failureThreshold || isTrial) {
+          open();
+        }
+        throw error;
+      } finally {
+        if (isTrial) {
+          trialInFlight = false;
+        }
+      }
+    },
+  };
+};
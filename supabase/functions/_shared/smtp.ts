@@ -0,0 +1,216 @@
+export type EmailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+// Delivers email; stub it in tests
+export type EmailTransport = {
+  send: (message: EmailMessage) => Promise<void>;
+};
+
+export type SmtpOptions = {
+  hostname: string;
+  port: number;
+  // Implicit TLS, e.g. port 465; otherwise the connection is upgraded with
+  // STARTTLS. Supabase blocks the plain SMTP ports.
+  tls?: boolean;
+  username?: string;
+  password?: string;
+  // Only for local test servers: send in plain text without STARTTLS
+  allowPlaintext?: boolean;
+  // For connecting and for each reply, so a stalled server cannot hang alerts
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; text: string };
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const encoder = new TextEncoder();
+
+// Header values must not contain line breaks, or they could add headers
+const headerValue = (value: string): string => value.replace(/[\r\n]+/g, " ");
+
+// Envelope address of "Name <address>" or a bare address
+const envelopeAddress = (value: string): string =>
+  headerValue(value.match(/<([^>]+)>/)?.[1] ?? value).trim();
+
+// RFC 2047 encoded word for subjects that are not plain ASCII
+const encodeSubject = (subject: string): string => {
+  const clean = headerValue(subject);
+  if (/^[\x20-\x7e]*$/.test(clean)) {
+    return clean;
+  }
+  const bytes = encoder.encode(clean);
+  return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+};
+
+/**
+ * RFC 5322 message with CRLF line endings, dot-stuffed for the DATA command
+ */
+export const formatEmailMessage = (
+  message: EmailMessage,
+  date = new Date()
+): string => {
+  const headers = [
+    `From: ${headerValue(message.from)}`,
+    `To: ${message.to.map(headerValue).join(", ")}`,
+    `Subject: ${encodeSubject(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith(".") ? `.${line}` : line));
+  return [...headers, "", ...body].join("\r\n");
+};
+
+// Rejects when the step takes longer than timeoutMs
+const withTimeout = async <T>(
+  step: Promise<T>,
+  timeoutMs: number,
+  action: string
+): Promise<T> => {
+  // The step fails once the connection is closed; that is expected
+  step.catch(() => {});
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      step,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(new Error(`SMTP ${action} timed out after ${timeoutMs}ms`)),
+          timeoutMs
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Reads and writes SMTP commands and replies over one connection
+const createSmtpSession = (conn: Deno.Conn, timeoutMs: number) => {
+  const decoder = new TextDecoder();
+  const chunk = new Uint8Array(4096);
+  let buffer = "";
+
+  const readReply = async (): Promise<SmtpReply> => {
+    while (true) {
+      const lines = buffer.split("\r\n");
+      // The last line of a reply has a space, not a dash, after the code
+      const lastIndex = lines
+        .slice(0, -1)
+        .findIndex((line) => /^\d{3}( |$)/.test(line));
+      if (lastIndex >= 0) {
+        buffer = lines.slice(lastIndex + 1).join("\r\n");
+        return {
+          code: Number(lines[lastIndex].slice(0, 3)),
+          text: lines.slice(0, lastIndex + 1).join("\n"),
+        };
+      }
+
+      const bytesRead = await conn.read(chunk);
+      if (bytesRead === null) {
+        throw new Error("SMTP connection closed unexpectedly");
+      }
+      buffer += decoder.decode(chunk.subarray(0, bytesRead), { stream: true });
+    }
+  };
+
+  const write = async (line: string): Promise<void> => {
+    const bytes = encoder.encode(`${line}\r\n`);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await conn.write(bytes.subarray(written));
+    }
+  };
+
+  const expect = async (...codes: number[]): Promise<SmtpReply> => {
+    const reply = await withTimeout(readReply(), timeoutMs, "reply");
+    if (!codes.includes(reply.code)) {
+      throw new Error(`Unexpected SMTP reply: ${reply.text}`);
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+    command: async (line: string, ...codes: number[]): Promise<SmtpReply> => {
+      await withTimeout(write(line), timeoutMs, "write");
+      return await expect(...codes);
+    },
+  };
+};
+
+/**
+ * Sends each message over a new SMTP connection, upgraded with STARTTLS unless
+ * it uses implicit TLS, authenticating with AUTH PLAIN when a username is
+ * given. Credentials and alerts are never sent in plain text unless
+ * allowPlaintext is set.
+ */
+export const createSmtpTransport = ({
+  hostname,
+  port,
+  tls = false,
+  username,
+  password,
+  allowPlaintext = false,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: SmtpOptions): EmailTransport => ({
+  send: async (message) => {
+    let conn = await withTimeout<Deno.Conn>(
+      tls
+        ? Deno.connectTls({ hostname, port })
+        : Deno.connect({ hostname, port }),
+      timeoutMs,
+      "connection"
+    );
+    try {
+      let session = createSmtpSession(conn, timeoutMs);
+      await session.expect(220);
+      const hello = await session.command("EHLO localhost", 250);
+      if (!tls && /^250[ -]STARTTLS\b/im.test(hello.text)) {
+        await session.command("STARTTLS", 220);
+        conn = await withTimeout(
+          // Opened with Deno.connect, as tls is false
+          Deno.startTls(conn as Deno.TcpConn, { hostname }),
+          timeoutMs,
+          "TLS handshake"
+        );
+        session = createSmtpSession(conn, timeoutMs);
+        // The server forgets everything said before the upgrade
+        await session.command("EHLO localhost", 250);
+      } else if (!tls && !allowPlaintext) {
+        throw new Error(
+          `SMTP server ${hostname}:${port} does not offer STARTTLS; refusing to send in plain text`
+        );
+      }
+      if (username) {
+        const credentials = btoa(`\0${username}\0${password ?? ""}`);
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+      await session.command(
+        `MAIL FROM:<${envelopeAddress(message.from)}>`,
+        250
+      );
+      for (const recipient of message.to) {
+        await session.command(
+          `RCPT TO:<${envelopeAddress(recipient)}>`,
+          250,
+          251
+        );
+      }
+      await session.command("DATA", 354);
+      await session.command(`${formatEmailMessage(message)}\r\n.`, 250);
+      await session.command("QUIT", 221);
+    } finally {
+      conn.close();
+    }
+  },
+});
@@ -0,0 +1,39 @@
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Minimal PostgREST client for the project's database.
+ * Uses the service role key, so it must only be called from server-side code.
+ */
+export const supabaseRest = async <T = unknown>(
+  path: string,
+  init: RequestInit = {}
+): Promise<T | undefined> => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      "SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set to use the database"
+    );
+  }
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: serviceRoleKey,
+      Authorization: `Bearer ${serviceRoleKey}`,
+      "Content-Type": "application/json",
+      ...init.headers,
+    },
+    signal: init.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Database request failed (${response.status}): ${await response.text()}`
+    );
+  }
+
+  const text = await response.text();
+  return text ? (JSON.parse(text) as T) : undefined;
+};
@@ -1,16 +1,103 @@
+import {
+  ADMIN_SCOPE,
+  type ApiClient,
+  findApiKey,
+  loadApiKeys,
+  SIGNATURE_HEADER,
+  SIGNATURE_KEY_ID_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  timingSafeEqual,
+  verifyRequestSignature,
+} from "./api-keys.ts";
 import { corsHeaders } from "./cors.ts";
 
 type ValidationResult = {
   success: boolean;
   response?: Response;
+  // Set when the request was authenticated
+  client?: ApiClient;
+};
+
+type ValidationOptions = {
+  // Only accept the bearer token held in this environment variable,
+  // e.g. SUPABASE_SERVICE_ROLE_KEY for admin routes
+  tokenEnvVar?: string;
+  // GET requests have no body, so no content type or signature
+  method?: "POST" | "GET";
+};
+
+const unauthorized = (error: string): ValidationResult => ({
+  success: false,
+  response: new Response(JSON.stringify({ error }), {
+    status: 401,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  }),
+});
+
+// Token from x-api-key when allowed, or from "Authorization: Bearer <token>"
+const getToken = (
+  req: Request,
+  allowApiKeyHeader: boolean
+): string | ValidationResult => {
+  const apiKey = allowApiKeyHeader && req.headers.get("x-api-key");
+  if (apiKey) {
+    return apiKey;
+  }
+
+  // Verify authentication
+  const authHeader = req.headers.get("authorization");
+  if (!authHeader) {
+    return unauthorized("Missing authorization header");
+  }
+
+  // Expected format: "Bearer <token>"
+  const parts = authHeader.split(" ");
+  if (parts.length !== 2 || parts[0] !== "Bearer") {
+    return unauthorized("Invalid authorization format");
+  }
+
+  return parts[1];
+};
+
+// Server-to-server requests signed with a key's HMAC secret
+const validateSignature = async (
+  req: Request,
+  signature: string
+): Promise<ValidationResult> => {
+  const keyId = req.headers.get(SIGNATURE_KEY_ID_HEADER);
+  const timestamp = req.headers.get(SIGNATURE_TIMESTAMP_HEADER);
+  if (!keyId || !timestamp) {
+    return unauthorized(
+      `Signed requests must include ${SIGNATURE_KEY_ID_HEADER} and ${SIGNATURE_TIMESTAMP_HEADER} headers`
+    );
+  }
+
+  const verification = await verifyRequestSignature(
+    { keyId, timestamp, signature, body: await req.clone().text() },
+    loadApiKeys() ?? []
+  );
+  if (!verification.valid) {
+    return unauthorized(verification.error);
+  }
+
+  return {
+    success: true,
+    client: {
+      name: verification.entry.name,
+      dataTypes: verification.entry.dataTypes,
+      scopes: verification.entry.scopes ?? [],
+      method: "signature",
+    },
+  };
 };
 
 export const validateRequest = async (
-  req: Request
+  req: Request,
+  { tokenEnvVar, method = "POST" }: ValidationOptions = {}
 ): Promise<ValidationResult> => {
   // Validate request content type
   const contentType = req.headers.get("content-type") || "";
-  if (!contentType.includes("application/json")) {
+  if (method === "POST" && !contentType.includes("application/json")) {
     return {
       success: false,
       response: new Response(
@@ -24,7 +111,7 @@ export const validateRequest = async (
   }
 
   // Validate HTTP method
-  if (req.method !== "POST") {
+  if (req.method !== method) {
     return {
       success: false,
       response: new Response(JSON.stringify({ error: "Method not allowed" }), {
@@ -34,52 +121,66 @@ export const validateRequest = async (
     };
   }
 
-  // Verify authentication
-  const authHeader = req.headers.get("authorization");
-  if (!authHeader) {
+  const signature = req.headers.get(SIGNATURE_HEADER);
+  if (signature && !tokenEnvVar && method === "POST") {
+    return await validateSignature(req, signature);
+  }
+
+  const token = getToken(req, !tokenEnvVar);
+  if (typeof token !== "string") {
+    return token;
+  }
+
+  // The service role key is always an admin
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (
+    !tokenEnvVar &&
+    serviceRoleKey &&
+    timingSafeEqual(token, serviceRoleKey)
+  ) {
     return {
-      success: false,
-      response: new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      ),
+      success: true,
+      client: {
+        name: "service-role",
+        dataTypes: ["*"],
+        scopes: [ADMIN_SCOPE],
+        method: "key",
+      },
     };
   }
 
-  // Expected format: "Bearer <token>"
-  const parts = authHeader.split(" ");
-  if (parts.length !== 2 || parts[0] !== "Bearer") {
+  // Named API keys, each limited to its own dataTypes
+  const apiKeys = tokenEnvVar ? undefined : loadApiKeys();
+  if (apiKeys) {
+    const entry = findApiKey(token, apiKeys);
+    if (!entry) {
+      return unauthorized("Invalid authorization token");
+    }
     return {
-      success: false,
-      response: new Response(
-        JSON.stringify({ error: "Invalid authorization format" }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      ),
+      success: true,
+      client: {
+        name: entry.name,
+        dataTypes: entry.dataTypes,
+        scopes: entry.scopes ?? [],
+        method: "key",
+      },
     };
   }
 
-  const token = parts[1];
-
   // Verify token against environment variable for API key
-  const apiKey = Deno.env.get("SUPABASE_ANON_KEY");
-  if (!apiKey || token !== apiKey) {
-    return {
-      success: false,
-      response: new Response(
-        JSON.stringify({ error: "Invalid authorization token" }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      ),
-    };
+  const envVar = tokenEnvVar ?? "SUPABASE_ANON_KEY";
+  const apiKey = Deno.env.get(envVar);
+  if (!apiKey || !timingSafeEqual(token, apiKey)) {
+    return unauthorized("Invalid authorization token");
   }
 
-  return { success: true };
+  return {
+    success: true,
+    client: {
+      name: envVar,
+      dataTypes: ["*"],
+      scopes: tokenEnvVar ? [ADMIN_SCOPE] : [],
+      method: "key",
+    },
+  };
 };
@@ -0,0 +1,32 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { createSiteVerifyCaptchaVerifier } from "../_shared/captcha.ts";
+
+Deno.test("gives up on a CAPTCHA provider that does not answer", async () => {
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    async () => {
+      await released;
+      return Response.json({ success: true });
+    },
+  );
+
+  try {
+    const verifier = createSiteVerifyCaptchaVerifier({
+      secret: "secret",
+      verifyUrl: `http://127.0.0.1:${server.addr.port}`,
+      timeoutMs: 50,
+    });
+    const error = await verifier.verify("token").then(
+      () => undefined,
+      (error: Error) => error,
+    );
+    assertEquals(error?.name, "TimeoutError");
+  } finally {
+    release();
+    await server.shutdown();
+  }
+});
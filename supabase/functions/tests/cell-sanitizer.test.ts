@@ -0,0 +1,71 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  MAX_CELL_LENGTH,
+  sanitizeCell,
+  sanitizeRows,
+} from "../_shared/cell-sanitizer.ts";
+
+Deno.test("neutralizes formula-like values", () => {
+  for (
+    const value of [
+      "=1+1",
+      "+A1",
+      "-2+3",
+      "@SUM(A1)",
+      "  =HYPERLINK()",
+      // Phone numbers stay text instead of becoming 17575550100
+      "+17575550100",
+      "-12.5",
+    ]
+  ) {
+    assertEquals(sanitizeCell(value), {
+      value: `'${value}`,
+      changes: ["formula"],
+    });
+  }
+  for (const value of ["757-555-0100", "a=b", "ada@example.com"]) {
+    assertEquals(sanitizeCell(value), { value, changes: [] });
+  }
+  assertEquals(sanitizeCell(-5), { value: -5, changes: [] });
+  assertEquals(sanitizeCell(true), { value: true, changes: [] });
+  assertEquals(sanitizeCell(null), { value: null, changes: [] });
+});
+
+Deno.test("strips control characters and truncates long values", () => {
+  assertEquals(sanitizeCell("a\u0000b\u0007c\r\n\td\u009b"), {
+    value: "abc\n\td",
+    changes: ["control_characters"],
+  });
+  // Removing them may expose a formula
+  assertEquals(sanitizeCell("\u0008=1"), {
+    value: "'=1",
+    changes: ["control_characters", "formula"],
+  });
+  assertEquals(sanitizeCell("=abcdef", 4), {
+    value: "'=ab",
+    changes: ["formula", "truncated"],
+  });
+  assertEquals(
+    sanitizeCell("x".repeat(MAX_CELL_LENGTH + 1)).value,
+    "x".repeat(MAX_CELL_LENGTH),
+  );
+});
+
+Deno.test("sanitizes rows with per-column limits", () => {
+  const { rows, alterations } = sanitizeRows(
+    [
+      { Name: "Ada", Count: 3 },
+      { Name: "=IMPORTXML(A1)", Count: -1, Notes: "long note" },
+    ],
+    { Notes: 4 },
+  );
+
+  assertEquals(rows, [
+    { Name: "Ada", Count: 3 },
+    { Name: "'=IMPORTXML(A1)", Count: -1, Notes: "long" },
+  ]);
+  assertEquals(alterations, [
+    { row: 1, column: "Name", changes: ["formula"] },
+    { row: 1, column: "Notes", changes: ["truncated"] },
+  ]);
+});
@@ -0,0 +1,72 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { isOriginAllowed, loadCorsPolicy } from "../_shared/cors.ts";
+
+const withEnv = (env: Record<string, string>, fn: () => void) => {
+  for (const [name, value] of Object.entries(env)) {
+    Deno.env.set(name, value);
+  }
+  try {
+    fn();
+  } finally {
+    for (const name of Object.keys(env)) {
+      Deno.env.delete(name);
+    }
+  }
+};
+
+Deno.test("matches exact origins and wildcard subdomains", () => {
+  const policy = {
+    allowedOrigins: ["https://colorworks.example", "https://*.colorworks.dev"],
+  };
+
+  assertEquals(isOriginAllowed("https://colorworks.example", policy), true);
+  assertEquals(isOriginAllowed("https://COLORWORKS.example/", policy), true);
+  assertEquals(isOriginAllowed("https://a.b.colorworks.dev", policy), true);
+  assertEquals(isOriginAllowed("https://colorworks.dev", policy), false);
+  assertEquals(isOriginAllowed("http://app.colorworks.dev", policy), false);
+  assertEquals(isOriginAllowed("https://evilcolorworks.dev", policy), false);
+  assertEquals(
+    isOriginAllowed("https://colorworks.example.evil.com", policy),
+    false,
+  );
+  // Server-to-server callers send no Origin header
+  assertEquals(isOriginAllowed(null, policy), true);
+});
+
+Deno.test("reads the origin list for the current environment", () => {
+  const origins = JSON.stringify({
+    production: ["https://colorworks.example"],
+    staging: ["https://*.colorworks.dev"],
+  });
+
+  withEnv({ CORS_ALLOWED_ORIGINS: origins, APP_ENV: "staging" }, () => {
+    assertEquals(loadCorsPolicy().allowedOrigins, ["https://*.colorworks.dev"]);
+  });
+  withEnv({ CORS_ALLOWED_ORIGINS: origins }, () => {
+    assertEquals(loadCorsPolicy().allowedOrigins, [
+      "https://colorworks.example",
+    ]);
+  });
+  withEnv(
+    { CORS_ALLOWED_ORIGINS: "https://a.example, https://b.example/" },
+    () => {
+      assertEquals(loadCorsPolicy().allowedOrigins, [
+        "https://a.example",
+        "https://b.example",
+      ]);
+    },
+  );
+  withEnv({ CORS_ALLOWED_ORIGINS: "{not json" }, () => {
+    assertEquals(loadCorsPolicy().allowedOrigins, []);
+  });
+});
+
+Deno.test("rejects browser requests when no origins are configured", () => {
+  assertEquals(loadCorsPolicy().allowedOrigins, []);
+  withEnv({ APP_ENV: "staging" }, () => {
+    assertEquals(loadCorsPolicy().allowedOrigins, []);
+  });
+  withEnv({ APP_ENV: "local" }, () => {
+    assertEquals(loadCorsPolicy().allowedOrigins, ["*"]);
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * In-process stand-in for the Google OAuth token endpoint, the Sheets v4
+ * REST API and the Slack webhook, so the handler can be tested offline.
+ */
+
+type CellValue = string | number | boolean | null;
+
+type FakeTab = {
+  sheetId: number;
+  rows: CellValue[][];
+  columnCount: number;
+};
+
+type FakeSpreadsheet = {
+  title: string;
+  tabs: Map<string, FakeTab>;
+};
+
+type InjectedFailure = {
+  method?: string;
+  pathIncludes?: string;
+  status: number;
+  remaining: number;
+};
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  body: string;
+};
+
+export type FakeGoogleSheets = {
+  url: string;
+  tokenUrl: string;
+  slackWebhookUrl: string;
+  requests: RecordedRequest[];
+  slackMessages: string[];
+  addSpreadsheet: (
+    spreadsheetId: string,
+    tabs?: Record<string, CellValue[][]>,
+  ) => void;
+  // Rows of a tab, header row first
+  getRows: (spreadsheetId: string, tabName: string) => CellValue[][];
+  tabNames: (spreadsheetId: string) => string[];
+  // Fail matching Sheets API or token requests with the given status, e.g. 429
+  // or 500
+  failNext: (
+    failure: { method?: string; pathIncludes?: string; status: number },
+    times?: number,
+  ) => void;
+  // Refuse token requests signed as this service account, like a deleted key
+  revokeServiceAccount: (clientEmail: string) => void;
+  // Service accounts that requested tokens, in order
+  tokenRequests: () => string[];
+  reset: () => void;
+  close: () => Promise<void>;
+};
+
+const GOOGLE_ERROR_STATUS: Record<number, string> = {
+  400: "INVALID_ARGUMENT",
+  403: "PERMISSION_DENIED",
+  404: "NOT_FOUND",
+  429: "RESOURCE_EXHAUSTED",
+  500: "INTERNAL",
+  503: "UNAVAILABLE",
+};
+
+const googleError = (status: number, message: string): Response =>
+  Response.json(
+    {
+      error: {
+        code: status,
+        message,
+        status: GOOGLE_ERROR_STATUS[status] ?? "UNKNOWN",
+      },
+    },
+    { status },
+  );
+
+const columnIndex = (letters: string): number =>
+  [...letters].reduce(
+    (acc, letter) => acc * 26 + letter.charCodeAt(0) - 64,
+    0,
+  ) -
+  1;
+
+// Parses ranges such as 'Live Events'!A1, 'Tab'!1:1 or 'Tab'!C2:C
+const parseRange = (range: string) => {
+  const match = range.match(
+    /^'((?:[^']|'')+)'(?:!([A-Z]*)(\d*)(?::([A-Z]*)(\d*))?)?$/,
+  );
+  if (!match) {
+    throw new Error(`Unsupported range: ${range}`);
+  }
+  const [, title, startCol, startRow, endCol, endRow] = match;
+  return {
+    title: title.replace(/''/g, "'"),
+    startCol: startCol ? columnIndex(startCol) : 0,
+    startRow: startRow ? Number(startRow) - 1 : 0,
+    endCol: endCol
+      ? columnIndex(endCol)
+      : startCol && endCol === undefined
+      ? columnIndex(startCol)
+      : undefined,
+    endRow: endRow
+      ? Number(endRow) - 1
+      : startRow && endRow === undefined
+      ? Number(startRow) - 1
+      : undefined,
+  };
+};
+
+const trimRow = (row: CellValue[]): CellValue[] => {
+  const trimmed = [...row];
+  while (
+    trimmed.length > 0 &&
+    (trimmed[trimmed.length - 1] === null ||
+      trimmed[trimmed.length - 1] === "")
+  ) {
+    trimmed.pop();
+  }
+  return trimmed;
+};
+
+// Service account that signed the JWT assertion of a token request
+const tokenIssuer = (body: string): string => {
+  const assertion = new URLSearchParams(body).get("assertion") ?? "";
+  const claims = assertion.split(".")[1] ?? "";
+  try {
+    const json = atob(claims.replace(/-/g, "+").replace(/_/g, "/"));
+    return String((JSON.parse(json) as { iss?: unknown }).iss ?? "");
+  } catch {
+    return "";
+  }
+};
+
+export const startFakeGoogleSheets = (): FakeGoogleSheets => {
+  const spreadsheets = new Map<string, FakeSpreadsheet>();
+  const requests: RecordedRequest[] = [];
+  const slackMessages: string[] = [];
+  let failures: InjectedFailure[] = [];
+  let nextSheetId = 1;
+  const revokedAccounts = new Set<string>();
+
+  const addSpreadsheet = (
+    spreadsheetId: string,
+    tabs: Record<string, CellValue[][]> = {},
+  ) => {
+    spreadsheets.set(spreadsheetId, {
+      title: `Spreadsheet ${spreadsheetId}`,
+      tabs: new Map(
+        Object.entries(tabs).map(([title, rows]) => [
+          title,
+          {
+            sheetId: nextSheetId++,
+            rows: rows.map((row) => [...row]),
+            columnCount: 26,
+          },
+        ]),
+      ),
+    });
+  };
+
+  const writeCells = (
+    tab: FakeTab,
+    startRow: number,
+    startCol: number,
+    values: CellValue[][],
+  ) => {
+    values.forEach((rowValues, rowOffset) => {
+      const rowIndex = startRow + rowOffset;
+      while (tab.rows.length <= rowIndex) {
+        tab.rows.push([]);
+      }
+      const row = tab.rows[rowIndex];
+      rowValues.forEach((value, colOffset) => {
+        const colIndex = startCol + colOffset;
+        if (colIndex >= tab.columnCount) {
+          throw new Error("Range exceeds grid limits");
+        }
+        // Like the real API, null leaves the existing cell untouched
+        if (value !== null) {
+          while (row.length <= colIndex) {
+            row.push(null);
+          }
+          row[colIndex] = value;
+        }
+      });
+    });
+  };
+
+  const handleSheets = (
+    method: string,
+    path: string,
+    body: string,
+  ): Response => {
+    const match = path.match(/^\/spreadsheets\/([^/:]+)(.*)$/);
+    const spreadsheet = match && spreadsheets.get(match[1]);
+    if (!match || !spreadsheet) {
+      return googleError(404, "Requested entity was not found.");
+    }
+    const [, spreadsheetId, rest] = match;
+
+    if (method === "GET" && rest === "") {
+      return Response.json({
+        spreadsheetId,
+        properties: { title: spreadsheet.title },
+        sheets: [...spreadsheet.tabs].map(([title, tab], index) => ({
+          properties: {
+            sheetId: tab.sheetId,
+            title,
+            index,
+            gridProperties: {
+              rowCount: Math.max(1000, tab.rows.length),
+              columnCount: tab.columnCount,
+            },
+          },
+        })),
+      });
+    }
+
+    if (method === "POST" && rest === ":batchUpdate") {
+      const { requests: updates } = JSON.parse(body) as {
+        requests: Record<string, Record<string, unknown>>[];
+      };
+      const replies = updates.map((update) => {
+        if (update.addSheet) {
+          const properties = update.addSheet.properties as {
+            title: string;
+            gridProperties?: { columnCount?: number };
+          };
+          if (spreadsheet.tabs.has(properties.title)) {
+            throw new Error(`Sheet "${properties.title}" already exists`);
+          }
+          const tab: FakeTab = {
+            sheetId: nextSheetId++,
+            rows: [],
+            columnCount: properties.gridProperties?.columnCount ?? 26,
+          };
+          spreadsheet.tabs.set(properties.title, tab);
+          return {
+            addSheet: {
+              properties: {
+                sheetId: tab.sheetId,
+                title: properties.title,
+                index: spreadsheet.tabs.size - 1,
+                gridProperties: {
+                  rowCount: 1000,
+                  columnCount: tab.columnCount,
+                },
+              },
+            },
+          };
+        }
+        if (update.appendDimension) {
+          const { sheetId, length } = update.appendDimension as {
+            sheetId: number;
+            length: number;
+          };
+          const tab = [...spreadsheet.tabs.values()].find((candidate) =>
+            candidate.sheetId === sheetId
+          );
+          if (tab) {
+            tab.columnCount += length;
+          }
+          return {};
+        }
+        throw new Error(`Unsupported request: ${Object.keys(update)}`);
+      });
+      return Response.json({ spreadsheetId, replies });
+    }
+
+    if (method === "POST" && rest === "/values:batchUpdate") {
+      const { data } = JSON.parse(body) as {
+        data: { range: string; values: CellValue[][] }[];
+      };
+      for (const { range, values } of data) {
+        const parsed = parseRange(range);
+        const tab = spreadsheet.tabs.get(parsed.title);
+        if (!tab) {
+          return googleError(400, `Unable to parse range: ${range}`);
+        }
+        writeCells(tab, parsed.startRow, parsed.startCol, values);
+      }
+      return Response.json({ spreadsheetId });
+    }
+
+    const valuesMatch = rest.match(/^\/values\/(.+?)(:append)?$/);
+    if (valuesMatch) {
+      const range = valuesMatch[1];
+      const parsed = parseRange(range);
+      const tab = spreadsheet.tabs.get(parsed.title);
+      if (!tab) {
+        return googleError(400, `Unable to parse range: ${range}`);
+      }
+
+      if (method === "POST" && valuesMatch[2]) {
+        const { values } = JSON.parse(body) as { values: CellValue[][] };
+        let lastRow = tab.rows.length;
+        while (lastRow > 0 && trimRow(tab.rows[lastRow - 1]).length === 0) {
+          lastRow--;
+        }
+        writeCells(tab, lastRow, 0, values);
+        return Response.json({
+          spreadsheetId,
+          updates: {
+            updatedRange: `'${parsed.title}'!A${lastRow + 1}`,
+            updatedRows: values.length,
+          },
+        });
+      }
+
+      if (method === "GET") {
+        const endRow = parsed.endRow ?? tab.rows.length - 1;
+        const values = tab.rows
+          .slice(parsed.startRow, endRow + 1)
+          .map((row) =>
+            trimRow(
+              row.slice(
+                parsed.startCol,
+                parsed.endCol === undefined ? undefined : parsed.endCol + 1,
+              ),
+            )
+          );
+        while (values.length > 0 && values[values.length - 1].length === 0) {
+          values.pop();
+        }
+        return Response.json({
+          range,
+          majorDimension: "ROWS",
+          ...(values.length > 0 ? { values } : {}),
+        });
+      }
+    }
+
+    return googleError(404, `Unsupported request: ${method} ${path}`);
+  };
+
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    async (req) => {
+      const url = new URL(req.url);
+      const path = decodeURIComponent(url.pathname);
+      const body = req.method === "POST" ? await req.text() : "";
+      requests.push({ method: req.method, path, body });
+
+      if (path === "/slack") {
+        slackMessages.push((JSON.parse(body) as { text: string }).text);
+        return new Response("ok");
+      }
+
+      const failure = failures.find((candidate) =>
+        candidate.remaining > 0 &&
+        (!candidate.method || candidate.method === req.method) &&
+        (!candidate.pathIncludes || path.includes(candidate.pathIncludes))
+      );
+      if (failure) {
+        failure.remaining--;
+        return googleError(failure.status, "Injected failure");
+      }
+
+      if (path === "/token") {
+        if (revokedAccounts.has(tokenIssuer(body))) {
+          return Response.json({
+            error: "invalid_grant",
+            error_description: "Invalid JWT Signature.",
+          }, { status: 400 });
+        }
+        return Response.json({
+          access_token: "fake-access-token",
+          expires_in: 3600,
+          token_type: "Bearer",
+        });
+      }
+
+      try {
+        return handleSheets(req.method, path, body);
+      } catch (error) {
+        return googleError(400, (error as Error).message);
+      }
+    },
+  );
+
+  const url = `http://127.0.0.1:${(server.addr as Deno.NetAddr).port}`;
+
+  return {
+    url,
+    tokenUrl: `${url}/token`,
+    slackWebhookUrl: `${url}/slack`,
+    requests,
+    slackMessages,
+    addSpreadsheet,
+    getRows: (spreadsheetId, tabName) =>
+      (spreadsheets.get(spreadsheetId)?.tabs.get(tabName)?.rows ?? []).map(
+        trimRow,
+      ),
+    tabNames: (spreadsheetId) => [
+      ...(spreadsheets.get(spreadsheetId)?.tabs.keys() ?? []),
+    ],
+    failNext: (failure, times = 1) => {
+      failures.push({ ...failure, remaining: times });
+    },
+    revokeServiceAccount: (clientEmail) => {
+      revokedAccounts.add(clientEmail);
+    },
+    tokenRequests: () =>
+      requests
+        .filter((request) => request.path === "/token")
+        .map((request) => tokenIssuer(request.body)),
+    reset: () => {
+      spreadsheets.clear();
+      revokedAccounts.clear();
+      requests.length = 0;
+      slackMessages.length = 0;
+      failures = [];
+    },
+    close: () => server.shutdown(),
+  };
+};
@@ -0,0 +1,173 @@
+/**
+ * In-process stand-in for the database's PostgREST API, keeping each table as
+ * a list of rows. Supports the eq, lt, in, or and and filters, order and
+ * limit, which is what the function's queries use.
+ */
+
+type Row = Record<string, unknown>;
+
+export type RecordedQuery = {
+  method: string;
+  table: string;
+  params: URLSearchParams;
+};
+
+export type FakePostgrest = {
+  url: string;
+  serviceRoleKey: string;
+  queries: RecordedQuery[];
+  // Adds rows, filling in the table's column defaults
+  insert: (table: string, rows: Row[]) => Row[];
+  rows: (table: string) => Row[];
+  reset: () => void;
+  close: () => Promise<void>;
+};
+
+// Splits on commas that are not inside parentheses
+const splitTopLevel = (list: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of list) {
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+    current += char;
+  }
+  return [...parts, current];
+};
+
+// Condition like "status.eq.pending" or "and(a.eq.1,b.lt.2)"
+const matchesCondition = (row: Row, condition: string): boolean => {
+  const group = condition.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const parts = splitTopLevel(group[2]);
+    return group[1] === "and"
+      ? parts.every((part) => matchesCondition(row, part))
+      : parts.some((part) => matchesCondition(row, part));
+  }
+  const [column, operator, ...rest] = condition.split(".");
+  return matchesFilter(row, column, `${operator}.${rest.join(".")}`);
+};
+
+// Query parameter filter like id=in.(a,b)
+const matchesFilter = (row: Row, column: string, filter: string): boolean => {
+  const [, operator, value] = filter.match(/^(\w+)\.(.*)$/) ?? [];
+  const actual = String(row[column]);
+  switch (operator) {
+    case "eq":
+      return actual === value;
+    case "lt":
+      return actual < value;
+    case "in":
+      return splitTopLevel(value.slice(1, -1)).includes(actual);
+    default:
+      throw new Error(`Unsupported filter: ${column}=${filter}`);
+  }
+};
+
+const NOT_FILTERS = new Set(["select", "order", "limit", "on_conflict"]);
+
+const matchesQuery = (row: Row, params: URLSearchParams): boolean =>
+  [...params].every(([key, value]) =>
+    NOT_FILTERS.has(key) ||
+    (key === "or"
+      ? matchesCondition(row, `or${value}`)
+      : matchesFilter(row, key, value))
+  );
+
+export const startFakePostgrest = (
+  // Column defaults per table, like the migrations' defaults
+  defaults: Record<string, () => Row> = {},
+): FakePostgrest => {
+  const serviceRoleKey = "test-service-role-key";
+  const tables = new Map<string, Row[]>();
+  const queries: RecordedQuery[] = [];
+
+  const table = (name: string): Row[] => {
+    const rows = tables.get(name) ?? [];
+    tables.set(name, rows);
+    return rows;
+  };
+
+  const insert = (name: string, rows: Row[]): Row[] => {
+    const inserted = rows.map((row) => ({
+      ...defaults[name]?.(),
+      ...row,
+    }));
+    table(name).push(...inserted);
+    return inserted;
+  };
+
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    async (req) => {
+      if (req.headers.get("apikey") !== serviceRoleKey) {
+        return Response.json({ message: "Invalid API key" }, { status: 401 });
+      }
+
+      const url = new URL(req.url);
+      const name = url.pathname.replace(/^\/rest\/v1\//, "");
+      const params = url.searchParams;
+      queries.push({ method: req.method, table: name, params });
+      const representation = req.headers.get("prefer")?.includes(
+        "return=representation",
+      );
+
+      switch (req.method) {
+        case "GET": {
+          const [column, direction] = (params.get("order") ?? "").split(".");
+          const rows = table(name)
+            .filter((row) => matchesQuery(row, params))
+            .sort((a, b) =>
+              column
+                ? String(a[column]).localeCompare(String(b[column])) *
+                  (direction === "desc" ? -1 : 1)
+                : 0
+            );
+          const limit = Number(params.get("limit") ?? rows.length);
+          return Response.json(rows.slice(0, limit));
+        }
+        case "POST": {
+          const body = await req.json();
+          const inserted = insert(name, Array.isArray(body) ? body : [body]);
+          return representation
+            ? Response.json(inserted, { status: 201 })
+            : new Response(null, { status: 201 });
+        }
+        case "PATCH": {
+          const changes = await req.json();
+          const updated = table(name).filter((row) =>
+            matchesQuery(row, params)
+          );
+          for (const row of updated) {
+            Object.assign(row, changes);
+          }
+          return representation
+            ? Response.json(updated)
+            : new Response(null, { status: 204 });
+        }
+        default:
+          return Response.json({ message: "Unsupported method" }, {
+            status: 405,
+          });
+      }
+    },
+  );
+
+  return {
+    url: `http://127.0.0.1:${(server.addr as Deno.NetAddr).port}`,
+    serviceRoleKey,
+    queries,
+    insert,
+    rows: (name) => table(name),
+    reset: () => {
+      tables.clear();
+      queries.length = 0;
+    },
+    close: () => server.shutdown(),
+  };
+};
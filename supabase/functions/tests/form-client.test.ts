@@ -0,0 +1,112 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { createFormClient, FormApiError } from "../_shared/form-client.ts";
+
+const BASE_URL = "https://example.supabase.co/functions/v1/form";
+
+const userSignup = {
+  dataType: "user-signup" as const,
+  email: "ada@example.com",
+  firstName: "Ada",
+  lastName: "Lovelace",
+  createdDate: "2026-10-01",
+};
+
+const json = (
+  body: unknown,
+  status: number,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+// Answers requests in order and records them with the client's sleeps
+const stubFetch = (responses: (Response | Error)[]) => {
+  const requests: Request[] = [];
+  const sleeps: number[] = [];
+  const client = createFormClient({
+    baseUrl: `${BASE_URL}/`,
+    anonKey: "anon-key",
+    apiKey: "api-key",
+    fetch: (input, init) => {
+      requests.push(new Request(input, init));
+      const response = responses.shift();
+      return response instanceof Error
+        ? Promise.reject(response)
+        : Promise.resolve(response as Response);
+    },
+    sleep: (ms) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  });
+  return { client, requests, sleeps };
+};
+
+Deno.test("form client retries with the same idempotency key", async () => {
+  const { client, requests, sleeps } = stubFetch([
+    json({ error: "Google Sheets is unavailable", retryAfterSeconds: 2 }, 503, {
+      "Retry-After": "2",
+    }),
+    new TypeError("network error"),
+    json({
+      success: true,
+      message: "Data appended successfully",
+      operation: "appended",
+      retries: 0,
+      replayed: false,
+    }, 200),
+  ]);
+
+  const response = await client.submit(userSignup, { requestId: "req-1" });
+
+  assertEquals(response.success, true);
+  assertEquals(requests.length, 3);
+  assertEquals(requests[0].url, `${BASE_URL}/`);
+  assertEquals(requests[0].headers.get("Authorization"), "Bearer anon-key");
+  assertEquals(requests[0].headers.get("X-Api-Key"), "api-key");
+  assertEquals(requests[0].headers.get("X-Request-Id"), "req-1");
+  const keys = requests.map((request) =>
+    request.headers.get("Idempotency-Key")
+  );
+  assert(keys[0]);
+  assertEquals(new Set(keys).size, 1);
+  // Retry-After first, then backoff
+  assertEquals(sleeps, [2000, 1000]);
+  assertEquals(await requests[2].json(), { data: userSignup });
+});
+
+Deno.test("form client decodes field errors without retrying", async () => {
+  const { client, requests } = stubFetch([
+    json({
+      error: "Validation failed",
+      errors: [
+        { field: "email", code: "invalid_format", message: "Invalid email" },
+      ],
+    }, 422),
+  ]);
+
+  const error = await client.submit(userSignup).catch((error) => error);
+
+  assert(error instanceof FormApiError);
+  assertEquals(error.status, 422);
+  assertEquals(error.message, "Validation failed");
+  assertEquals(error.fieldErrors.map(({ field }) => field), ["email"]);
+  assertEquals(requests.length, 1);
+});
+
+Deno.test("form client gives up after its last attempt", async () => {
+  const { client, requests } = stubFetch([
+    json({ error: "Too many requests" }, 429),
+    json({ error: "Too many requests" }, 429),
+    json({ error: "Too many requests" }, 429),
+  ]);
+
+  const error = await client.getSubmissionStatus("a/b").catch((error) => error);
+
+  assert(error instanceof FormApiError);
+  assertEquals(error.status, 429);
+  assertEquals(requests.length, 3);
+  assertEquals(requests[0].url, `${BASE_URL}/submissions/a%2Fb`);
+});
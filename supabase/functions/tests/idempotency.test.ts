@@ -0,0 +1,34 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { createMemoryIdempotencyStore } from "../update-colorworks-google-sheet/idempotency.ts";
+
+const key = { key: "key:website:signup-1", payloadHash: "abc" };
+
+Deno.test("expires pending idempotency claims before the window", async () => {
+  let now = 0;
+  const store = createMemoryIdempotencyStore(() => now);
+
+  assertEquals(await store.claim(key, "user-signup"), { state: "claimed" });
+  assertEquals(await store.claim(key, "user-signup"), {
+    state: "in-progress",
+  });
+
+  // Left by a crashed isolate; the default pending expiry is 300 seconds
+  now = 301_000;
+  assertEquals(await store.claim(key, "user-signup"), { state: "claimed" });
+
+  await store.complete(key.key, 200, { success: true });
+  now = 3_000_000;
+  assertEquals(await store.claim(key, "user-signup"), {
+    state: "completed",
+    statusCode: 200,
+    response: { success: true },
+  });
+  assertEquals(
+    await store.claim({ ...key, payloadHash: "other" }, "user-signup"),
+    { state: "mismatch" },
+  );
+
+  // Completed results are kept for the whole window
+  now = 301_000 + 3_600_001;
+  assertEquals(await store.claim(key, "user-signup"), { state: "claimed" });
+});
@@ -0,0 +1,380 @@
+import { assert, assertEquals, assertMatch } from "jsr:@std/assert@1";
+import { runWithLogContext } from "../_shared/logger.ts";
+import {
+  createEmailChannel,
+  createNotifier,
+  createSlackChannel,
+  createWebhookChannel,
+  type Notification,
+} from "../_shared/notifier.ts";
+import { createSmtpTransport, type EmailMessage } from "../_shared/smtp.ts";
+
+// Local stand-in for Slack and webhook receivers, recording each JSON body
+const startReceiver = () => {
+  const bodies: Record<string, unknown>[] = [];
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    async (req) => {
+      bodies.push(await req.json());
+      return new Response("ok");
+    },
+  );
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    bodies,
+    close: () => server.shutdown(),
+  };
+};
+
+// Local SMTP server accepting one message, recording commands and its data
+const startSmtpStandIn = () => {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const commands: string[] = [];
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const session = (async () => {
+    const conn = await listener.accept();
+    const reply = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+    await reply("220 localhost ESMTP");
+
+    const chunk = new Uint8Array(4096);
+    let buffer = "";
+    let data: string[] | undefined;
+    while (true) {
+      const bytesRead = await conn.read(chunk);
+      if (bytesRead === null) {
+        break;
+      }
+      buffer += decoder.decode(chunk.subarray(0, bytesRead));
+      const lines = buffer.split("\r\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (data) {
+          if (line === ".") {
+            commands.push(`DATA ${data.join("\n")}`);
+            data = undefined;
+            await reply("250 Queued");
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith("EHLO")) {
+          await reply("250-localhost");
+          await reply("250 AUTH PLAIN");
+        } else if (line.startsWith("AUTH")) {
+          await reply("235 Authenticated");
+        } else if (line === "DATA") {
+          data = [];
+          await reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (line === "QUIT") {
+          await reply("221 Bye");
+          conn.close();
+          return;
+        } else {
+          await reply("250 OK");
+        }
+      }
+    }
+  })();
+
+  return {
+    port: (listener.addr as Deno.NetAddr).port,
+    commands,
+    close: async () => {
+      await session;
+      listener.close();
+    },
+  };
+};
+
+const writeFailure: Notification = {
+  severity: "error",
+  title: "Google Sheets write failed",
+  message: "Error updating Google Sheet: quota exceeded",
+  dataType: "live-event",
+  tabName: "Live Events",
+  errorClass: "GoogleSheetsApiError",
+};
+
+Deno.test("sends Block Kit messages to Slack", async () => {
+  const receiver = startReceiver();
+  try {
+    const notifier = createNotifier({
+      channels: [createSlackChannel({ webhookUrl: receiver.url })],
+    });
+    await runWithLogContext(
+      { requestId: "req-1" },
+      () => notifier.notify(writeFailure),
+    );
+
+    const [body] = receiver.bodies as {
+      text: string;
+      blocks: { type: string; fields?: { text: string }[] }[];
+    }[];
+    assertMatch(body.text, /Google Sheets write failed:\* Error updating/);
+    assertEquals(body.blocks.map((block) => block.type), [
+      "header",
+      "section",
+      "section",
+    ]);
+    assertEquals(body.blocks[2].fields?.map((field) => field.text), [
+      "*Severity*\nerror",
+      "*Data Type*\nlive-event",
+      "*Tab*\nLive Events",
+      "*Error*\nGoogleSheetsApiError",
+      "*Request ID*\nreq-1",
+    ]);
+  } finally {
+    await receiver.close();
+  }
+});
+
+Deno.test("shows custom fields and a link in Slack messages", async () => {
+  const receiver = startReceiver();
+  try {
+    const notifier = createNotifier({
+      channels: [
+        createSlackChannel({ webhookUrl: receiver.url, minSeverity: "info" }),
+      ],
+    });
+    await notifier.notify({
+      severity: "info",
+      title: "New live-event submission",
+      message: "A new row was added to Live Events.",
+      dataType: "live-event",
+      fields: { Organization: "NASA", Budget: "" },
+      url: "https://docs.google.com/spreadsheets/d/sheet/edit#gid=0&range=A2",
+    });
+
+    const [body] = receiver.bodies as {
+      blocks: {
+        type: string;
+        text?: { text: string };
+        fields?: { text: string }[];
+        elements?: { text: string }[];
+      }[];
+    }[];
+    assertEquals(body.blocks[2].fields?.map((field) => field.text), [
+      "*Organization*\nNASA",
+      "*Budget*\n-",
+    ]);
+    assertMatch(body.blocks[3].text?.text ?? "", /\|Open in Google Sheets>$/);
+    assertEquals(
+      body.blocks[4].elements?.[0].text,
+      "Severity: info · Data Type: live-event",
+    );
+  } finally {
+    await receiver.close();
+  }
+});
+
+Deno.test("escapes form values in Slack messages", async () => {
+  const receiver = startReceiver();
+  try {
+    const notifier = createNotifier({
+      channels: [
+        createSlackChannel({ webhookUrl: receiver.url, minSeverity: "info" }),
+      ],
+    });
+    await notifier.notify({
+      severity: "info",
+      title: "New live-event submission",
+      message: "A new row was added to <!here> Live Events.",
+      fields: {
+        Organization: "<!channel> Acme & Co",
+        Name: "<https://attacker.example|Open in Google Sheets>",
+      },
+    });
+
+    const [body] = receiver.bodies as {
+      text: string;
+      blocks: { text?: { text: string }; fields?: { text: string }[] }[];
+    }[];
+    assertEquals(body.blocks[2].fields?.map((field) => field.text), [
+      "*Organization*\n&lt;!channel&gt; Acme &amp; Co",
+      "*Name*\n&lt;https://attacker.example|Open in Google Sheets&gt;",
+    ]);
+    assertEquals(
+      body.blocks[1].text?.text,
+      "A new row was added to &lt;!here&gt; Live Events.",
+    );
+    assert(!body.text.includes("<!here>"));
+  } finally {
+    await receiver.close();
+  }
+});
+
+Deno.test("posts notifications to a generic webhook", async () => {
+  const receiver = startReceiver();
+  try {
+    const notifier = createNotifier({
+      channels: [createWebhookChannel({ url: receiver.url })],
+      now: () => Date.parse("2026-10-19T12:00:00Z"),
+    });
+    await notifier.notify({ ...writeFailure, requestId: "req-2" });
+
+    assertEquals(receiver.bodies, [{
+      ...writeFailure,
+      requestId: "req-2",
+      timestamp: "2026-10-19T12:00:00.000Z",
+      repeatCount: 0,
+    }]);
+  } finally {
+    await receiver.close();
+  }
+});
+
+Deno.test("emails notifications at or above the channel severity", async () => {
+  const sent: EmailMessage[] = [];
+  const notifier = createNotifier({
+    channels: [
+      createEmailChannel({
+        transport: {
+          send: (message) => Promise.resolve(void sent.push(message)),
+        },
+        from: "alerts@example.com",
+        to: ["ops@example.com"],
+      }),
+    ],
+  });
+
+  await notifier.notify({ ...writeFailure, severity: "warning" });
+  await notifier.notify(writeFailure);
+
+  assertEquals(sent.length, 1);
+  assertEquals(sent[0].subject, "[ERROR] Google Sheets write failed");
+  assertMatch(sent[0].text, /Tab: Live Events/);
+});
+
+Deno.test("suppresses repeated notifications within the window", async () => {
+  const sent: { repeatCount: number }[] = [];
+  let now = 0;
+  const notifier = createNotifier({
+    channels: [{
+      name: "stub",
+      minSeverity: "info",
+      send: (notification) => Promise.resolve(void sent.push(notification)),
+    }],
+    dedupWindowSeconds: 60,
+    now: () => now,
+  });
+
+  await notifier.notify(writeFailure);
+  now = 10_000;
+  await notifier.notify(writeFailure);
+  await notifier.notify(writeFailure);
+  await notifier.notify({ ...writeFailure, tabName: "Leads" });
+  assertEquals(sent.length, 2);
+
+  now = 61_000;
+  await notifier.notify(writeFailure);
+  assertEquals(sent.length, 3);
+  assertEquals(sent[2].repeatCount, 2);
+});
+
+Deno.test("keeps failing channels from blocking the others", async () => {
+  const sent: string[] = [];
+  const notifier = createNotifier({
+    channels: [
+      {
+        name: "broken",
+        minSeverity: "info",
+        send: () => Promise.reject(new Error("down")),
+      },
+      {
+        name: "stub",
+        minSeverity: "info",
+        send: (notification) =>
+          Promise.resolve(void sent.push(notification.title)),
+      },
+    ],
+  });
+
+  await notifier.notify(writeFailure);
+  assertEquals(sent, ["Google Sheets write failed"]);
+});
+
+Deno.test("delivers email over SMTP", async () => {
+  const smtp = startSmtpStandIn();
+  try {
+    await createSmtpTransport({
+      hostname: "127.0.0.1",
+      port: smtp.port,
+      username: "alerts",
+      password: "secret",
+      allowPlaintext: true,
+    }).send({
+      from: "Alerts <alerts@example.com>",
+      to: ["ops@example.com"],
+      subject: "[ERROR] Google Sheets write failed",
+      text: "First line\n.starts with a dot",
+    });
+  } finally {
+    await smtp.close();
+  }
+
+  assertEquals(smtp.commands.slice(0, 5), [
+    "EHLO localhost",
+    `AUTH PLAIN ${btoa("\0alerts\0secret")}`,
+    "MAIL FROM:<alerts@example.com>",
+    "RCPT TO:<ops@example.com>",
+    "DATA",
+  ]);
+  const data = smtp.commands[5];
+  assertMatch(data, /^DATA From: Alerts <alerts@example.com>/);
+  assertMatch(data, /Subject: \[ERROR\] Google Sheets write failed/);
+  assert(data.endsWith("First line\n..starts with a dot"));
+  assertEquals(smtp.commands[6], "QUIT");
+});
+
+Deno.test("refuses to send email without STARTTLS", async () => {
+  const smtp = startSmtpStandIn();
+  let error: Error | undefined;
+  try {
+    await createSmtpTransport({
+      hostname: "127.0.0.1",
+      port: smtp.port,
+      username: "alerts",
+      password: "secret",
+    }).send({
+      from: "alerts@example.com",
+      to: ["ops@example.com"],
+      subject: "Test",
+      text: "Secret alert",
+    }).catch((sendError) => {
+      error = sendError;
+    });
+  } finally {
+    await smtp.close();
+  }
+
+  assertMatch(error?.message ?? "", /does not offer STARTTLS/);
+  // Neither the credentials nor the message were sent
+  assertEquals(smtp.commands, ["EHLO localhost"]);
+});
+
+Deno.test("times out when the SMTP server stalls", async () => {
+  // Accepts the connection but never greets
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const accepted = listener.accept();
+  try {
+    const error = await createSmtpTransport({
+      hostname: "127.0.0.1",
+      port: (listener.addr as Deno.NetAddr).port,
+      timeoutMs: 50,
+    }).send({
+      from: "alerts@example.com",
+      to: ["ops@example.com"],
+      subject: "Test",
+      text: "Alert",
+    }).catch((sendError) => sendError);
+    assertMatch(error.message, /SMTP reply timed out after 50ms/);
+  } finally {
+    (await accepted).close();
+    listener.close();
+  }
+});
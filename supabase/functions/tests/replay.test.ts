@@ -0,0 +1,181 @@
+import { assert, assertEquals, assertMatch } from "jsr:@std/assert@1";
+import { claimPendingSubmissions } from "../update-colorworks-google-sheet/dead-letter.ts";
+import { handleReplayRequest } from "../update-colorworks-google-sheet/replay.ts";
+import { startFakeGoogleSheets } from "./fake-google-sheets.ts";
+import { startFakePostgrest } from "./fake-postgrest.ts";
+import { generatePrivateKeyPem } from "./service-account-keys.ts";
+
+const SHEET_ID = "test-sheet";
+const TABLE = "failed_sheet_submissions";
+const REPLAY_URL =
+  "http://localhost/functions/v1/update-colorworks-google-sheet/replay";
+
+const fake = startFakeGoogleSheets();
+const database = startFakePostgrest({
+  [TABLE]: () => {
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      attempts: 1,
+      status: "pending",
+      created_at: now,
+      last_attempt_at: now,
+      replayed_at: null,
+    };
+  },
+});
+
+Deno.env.set(
+  "GOOGLE_SERVICE_ACCOUNT_KEY",
+  JSON.stringify({
+    client_email: "tests@example.iam.gserviceaccount.com",
+    private_key: await generatePrivateKeyPem(),
+  }),
+);
+Deno.env.set("GOOGLE_SHEETS_API_URL", fake.url);
+Deno.env.set("GOOGLE_OAUTH_TOKEN_URL", fake.tokenUrl);
+Deno.env.set("SHEET_METADATA_TTL_SECONDS", "0");
+Deno.env.set("SUPABASE_URL", database.url);
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", database.serviceRoleKey);
+
+// Stores a failed user signup, created the given number of seconds ago
+const storeFailedSignup = (email: string, ageSeconds = 60, fields = {}) => {
+  const createdAt = new Date(Date.now() - ageSeconds * 1000).toISOString();
+  return database.insert(TABLE, [{
+    data_type: "user-signup",
+    sheet_id: SHEET_ID,
+    tab_name: "User Signups",
+    row: {
+      Email: email,
+      "First Name": "Ada",
+      "Last Name": "Lovelace",
+      "Created Date": "2026-10-01",
+    },
+    error: "Google Sheets API error (503): Backend error",
+    created_at: createdAt,
+    last_attempt_at: createdAt,
+    ...fields,
+  }])[0];
+};
+
+const replay = (body: unknown) =>
+  handleReplayRequest(
+    new Request(REPLAY_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${database.serviceRoleKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    }),
+  );
+
+const replayTest = (name: string, fn: () => Promise<void>) =>
+  Deno.test({
+    name,
+    fn: async () => {
+      fake.reset();
+      fake.addSpreadsheet(SHEET_ID);
+      database.reset();
+      await fn();
+    },
+    sanitizeResources: false,
+    sanitizeOps: false,
+  });
+
+replayTest("replays stored rows once", async () => {
+  storeFailedSignup("ada@example.com", 120);
+  storeFailedSignup("grace@example.com", 60);
+
+  const response = await replay({});
+  assertEquals(response.status, 200);
+  const body = await response.json();
+  assertEquals(body.replayed, 2);
+  assertEquals(
+    fake.getRows(SHEET_ID, "User Signups").map((row) => row[0]),
+    ["Email", "ada@example.com", "grace@example.com"],
+  );
+  assertEquals(
+    database.rows(TABLE).map((row) => row.status),
+    ["replayed", "replayed"],
+  );
+
+  const again = await (await replay({})).json();
+  assertEquals(again.replayed, 0);
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 3);
+});
+
+replayTest("releases rows whose replay failed", async () => {
+  const stored = storeFailedSignup("ada@example.com");
+  // Appends are not retried after server errors
+  fake.failNext({ method: "POST", pathIncludes: ":append", status: 500 });
+
+  const body = await (await replay({ ids: [stored.id] })).json();
+  assertEquals(body.failed, 1);
+  assertEquals(stored.status, "pending");
+  assertEquals(stored.attempts, 2);
+
+  assertEquals((await (await replay({})).json()).replayed, 1);
+});
+
+replayTest("rejects replay requests with malformed ids or limits", async () => {
+  for (
+    const body of [
+      { ids: ["1,id.neq.0"] },
+      { ids: "all" },
+      { limit: "10" },
+    ]
+  ) {
+    const response = await replay(body);
+    assertEquals(response.status, 400);
+    assertMatch((await response.json()).error, /ids|limit/);
+  }
+  assertEquals(database.queries.length, 0);
+
+  await (await replay({ limit: 100_000 })).body?.cancel();
+  await (await replay({ limit: -5 })).body?.cancel();
+  assertEquals(
+    database.queries.map((query) => query.params.get("limit")),
+    ["500", "1"],
+  );
+});
+
+replayTest("claims each stored row for one replay only", async () => {
+  for (let index = 0; index < 4; index++) {
+    storeFailedSignup(`user${index}@example.com`, 60 - index);
+  }
+
+  const [first, second] = await Promise.all([
+    claimPendingSubmissions({ limit: 4 }),
+    claimPendingSubmissions({ limit: 4 }),
+  ]);
+  const claimed = [...first, ...second].map((submission) => submission.id);
+  assertEquals(claimed.length, 4);
+  assertEquals(new Set(claimed).size, 4);
+  assert(database.rows(TABLE).every((row) => row.status === "replaying"));
+});
+
+replayTest("claims rows again when a replay never finished", async () => {
+  const stale = storeFailedSignup("ada@example.com", 3600, {
+    status: "replaying",
+  });
+  storeFailedSignup("grace@example.com", 60, {
+    status: "replaying",
+    last_attempt_at: new Date().toISOString(),
+  });
+
+  const claimed = await claimPendingSubmissions({ limit: 10 });
+  assertEquals(claimed.map((submission) => submission.id), [stale.id]);
+});
+
+Deno.test({
+  name: "stop the fake Google Sheets and database servers",
+  fn: async () => {
+    await fake.close();
+    await database.close();
+    Deno.env.delete("SUPABASE_URL");
+    Deno.env.delete("SUPABASE_SERVICE_ROLE_KEY");
+  },
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
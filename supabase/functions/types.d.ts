@@ -24,14 +24,50 @@ declare namespace Deno {
   
   export function serve(handler: ServeHandler, options?: ServeOptions): void;
   
+  export interface Conn {
+    read(buffer: Uint8Array): Promise<number | null>;
+    write(data: Uint8Array): Promise<number>;
+    close(): void;
+  }
+
+  export function connect(options: {
+    hostname?: string;
+    port: number;
+  }): Promise<Conn>;
+
+  export function connectTls(options: {
+    hostname?: string;
+    port: number;
+  }): Promise<Conn>;
+
+  export type TcpConn = Conn;
+
+  export function startTls(conn: TcpConn, options?: {
+    hostname?: string;
+  }): Promise<Conn>;
+
   export const env: {
     get(key: string): string | undefined;
     set(key: string, value: string): void;
     delete(key: string): void;
     toObject(): { [key: string]: string };
   };
+
+  export function writeTextFile(path: string | URL, data: string): Promise<void>;
+}
+
+interface ImportMeta {
+  // Whether the module was run directly, e.g. with deno run
+  main: boolean;
 }
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<any>): void;
-};
\ No newline at end of file
+};
+
+declare module "node:async_hooks" {
+  export class AsyncLocalStorage<T> {
+    getStore(): T | undefined;
+    run<R>(store: T, callback: () => R): R;
+  }
+}
@@ -0,0 +1,204 @@
+import type { BatchRecordResult } from "../_shared/form-payloads.ts";
+import { createRequestDeadline } from "../_shared/google-sheets-client.ts";
+import { logger } from "../_shared/logger.ts";
+import type { Notifier } from "../_shared/notifier.ts";
+import type { DataPayload } from "./data-types/types.ts";
+import {
+  getSheetTargets,
+  type SheetRoutes,
+  type SheetTarget,
+} from "./sheet-routes.ts";
+import { screenSubmission, type SpamCheckContext } from "./spam-check.ts";
+import {
+  alertNewRow,
+  combineWriteOutcomes,
+  type PreparedSubmission,
+  prepareSubmission,
+  type SubmissionWriteOutcome,
+  writeSubmissions,
+} from "./submission.ts";
+
+export const MAX_BATCH_RECORDS = 500;
+
+export type BatchOutcome = {
+  status: number;
+  body: {
+    success: boolean;
+    total: number;
+    succeeded: number;
+    failed: number;
+    // Google API requests retried after transient errors
+    retries: number;
+    results: BatchRecordResult[];
+  };
+  // True when every failed write was stored for replay
+  queuedForReplay: boolean;
+};
+
+/**
+ * Validates each record, groups the valid ones by target tab and data type and
+ * writes each group with a single call. Records routed to several tabs succeed only if
+ * every tab was written. Results are reported per record in input order.
+ * Records suspected of being spam are grouped under the quarantine tab.
+ */
+export async function processBatch(
+  records: DataPayload[],
+  routes: SheetRoutes,
+  notifier: Notifier,
+  spamCheckContext: SpamCheckContext = {},
+): Promise<BatchOutcome> {
+  const timestamp = new Date().toISOString();
+  const results: BatchRecordResult[] = [];
+  const groups = new Map<
+    string,
+    {
+      target: SheetTarget;
+      indexes: number[];
+      submissions: PreparedSubmission[];
+    }
+  >();
+  // Each record's targets in route order, primary first
+  const recordTargets = new Map<number, string[]>();
+
+  for (const [index, record] of records.entries()) {
+    if (!record || typeof record !== "object") {
+      results[index] = {
+        index,
+        dataType: "",
+        success: false,
+        error: "Record must be an object",
+      };
+      continue;
+    }
+
+    const dataType = String(record.dataType ?? "");
+    const preparation = prepareSubmission(record, timestamp);
+    if (!preparation.success || !preparation.submission) {
+      results[index] = {
+        index,
+        dataType,
+        success: false,
+        error: preparation.error,
+        ...(preparation.errors ? { errors: preparation.errors } : {}),
+      };
+      continue;
+    }
+
+    const submission = await screenSubmission(
+      record,
+      preparation.submission,
+      spamCheckContext,
+    );
+    const targets = getSheetTargets(
+      routes,
+      submission.definition.dataType,
+      submission.tabName,
+    );
+    const groupKeys: string[] = [];
+    for (const target of targets) {
+      // Data types sharing a tab are written separately, as each has its own
+      // key column, columns and length limits
+      const groupKey =
+        `${target.sheetId}/${target.tabName}/${submission.definition.dataType}`;
+      const group = groups.get(groupKey) ??
+        { target, indexes: [], submissions: [] };
+      group.indexes.push(index);
+      group.submissions.push(submission);
+      groups.set(groupKey, group);
+      groupKeys.push(groupKey);
+    }
+    recordTargets.set(index, groupKeys);
+  }
+
+  // Every group's retries fit the budget of one request
+  const deadline = createRequestDeadline();
+  let writeFailed = false;
+  let queuedForReplay = true;
+  let retries = 0;
+  // Per record, the outcome of each group it was written with
+  const recordOutcomes = new Map<
+    string,
+    Map<number, SubmissionWriteOutcome>
+  >();
+  for (const [groupKey, { target, indexes, submissions }] of groups) {
+    logger.info("Writing batch records", {
+      tabName: target.tabName,
+      count: submissions.length,
+    });
+    const outcome = await writeSubmissions(
+      target.sheetId,
+      target.tabName,
+      submissions,
+      notifier,
+      deadline,
+    );
+    retries += outcome.retries ?? 0;
+    if (!outcome.success) {
+      writeFailed = true;
+      queuedForReplay = queuedForReplay && outcome.queuedForReplay;
+    }
+
+    const outcomes = new Map<number, SubmissionWriteOutcome>();
+    indexes.forEach((index, position) => {
+      outcomes.set(index, {
+        ...outcome,
+        operations: outcome.operations && [outcome.operations[position]],
+        rowNumbers: outcome.rowNumbers && [outcome.rowNumbers[position]],
+        rowUrls: outcome.rowUrls && [outcome.rowUrls[position]],
+      });
+    });
+    recordOutcomes.set(groupKey, outcomes);
+  }
+
+  for (const [index, groupKeys] of recordTargets) {
+    const outcome = combineWriteOutcomes(
+      groupKeys.map((groupKey) =>
+        recordOutcomes.get(groupKey)?.get(index) as SubmissionWriteOutcome
+      ),
+    );
+    const primary = groups.get(groupKeys[0]);
+    if (primary) {
+      await alertNewRow(
+        primary.submissions[primary.indexes.indexOf(index)],
+        primary.target.tabName,
+        outcome,
+      );
+    }
+    results[index] = {
+      index,
+      dataType: String(records[index].dataType),
+      tabName: primary?.target.tabName,
+      success: outcome.success,
+      ...(outcome.success ? { operation: outcome.operations?.[0] } : {
+        error: String(outcome.failure?.body.error),
+        queuedForReplay: outcome.queuedForReplay,
+      }),
+    };
+  }
+
+  const succeeded = results.filter((result) => result.success).length;
+  const failed = results.length - succeeded;
+
+  // Multi-Status when only some records were written
+  let status = 207;
+  if (failed === 0) {
+    status = 200;
+  } else if (writeFailed && succeeded === 0) {
+    status = 500;
+  } else if (succeeded === 0) {
+    status = results.every((result) => result.errors) ? 422 : 400;
+  }
+
+  return {
+    status,
+    body: {
+      success: failed === 0,
+      total: results.length,
+      succeeded,
+      failed,
+      retries,
+      results,
+    },
+    queuedForReplay,
+  };
+}
@@ -0,0 +1,41 @@
+import type { BulkAssessmentData } from "../../_shared/form-payloads.ts";
+import type { DataTypeDefinition, FieldPath, FieldRules } from "./types.ts";
+
+export const bulkAssessment: DataTypeDefinition<BulkAssessmentData> = {
+  dataType: "bulk-assessment",
+  tabName: "Bulk Assessments",
+  requiredFields: [
+    "name",
+    "email",
+    "phoneNumber",
+    "numberOfAssessments",
+  ] satisfies FieldPath<BulkAssessmentData>[],
+  fields: {
+    name: { type: "string" },
+    email: { type: "email" },
+    phoneNumber: { type: "phone" },
+    numberOfAssessments: { type: "number", integer: true, min: 1 },
+  } satisfies FieldRules<BulkAssessmentData>,
+  columns: [
+    "Date",
+    "Name",
+    "Email",
+    "Phone Number",
+    "Number of Assessments",
+    "Submission Date",
+  ],
+  maxLengths: { "Name": 200, "Email": 254 },
+  spamProtection: {
+    captcha: true,
+    honeypotField: "honeypot",
+    minimumFillSeconds: 3,
+  },
+  formatRow: (data, timestamp) => ({
+    "Date": timestamp.split("T")[0], // Just the date part YYYY-MM-DD
+    "Name": data.name,
+    "Email": data.email,
+    "Phone Number": data.phoneNumber,
+    "Number of Assessments": data.numberOfAssessments,
+    "Submission Date": timestamp, // Full ISO timestamp
+  }),
+};
@@ -0,0 +1,148 @@
+import {
+  EVENT_FORMATS,
+  type LiveEventData,
+  LOCATION_TYPES,
+} from "../../_shared/form-payloads.ts";
+import type { DataTypeDefinition, FieldPath, FieldRules } from "./types.ts";
+
+/**
+ * Flattens a single date or a start/end range into one cell value
+ */
+export const formatEventDate = (
+  eventDate: LiveEventData["eventDate"],
+): string => {
+  if (!eventDate) {
+    return "";
+  }
+  if (typeof eventDate === "string") {
+    return eventDate;
+  }
+  return `${eventDate.startDate} to ${eventDate.endDate}`;
+};
+
+/**
+ * Joins a list of selections into a comma separated cell value
+ */
+export const formatList = (values: string[] | undefined): string =>
+  Array.isArray(values) ? values.join(", ") : "";
+
+export const liveEvent: DataTypeDefinition<LiveEventData> = {
+  dataType: "live-event",
+  tabName: "Live Events",
+  keyColumn: "Email",
+  requiredFields: [
+    "name",
+    "email",
+    "phoneNumber",
+    "estimatedAttendees",
+  ] satisfies FieldPath<LiveEventData>[],
+  fields: {
+    name: { type: "string" },
+    email: { type: "email" },
+    phoneNumber: { type: "phone" },
+    jobTitle: { type: "string" },
+    organizationName: { type: "string" },
+    websiteUrl: { type: "string" },
+    estimatedAttendees: { type: "number", integer: true, min: 1 },
+    desiredContentType: { type: "string" },
+    desiredDuration: { type: "string" },
+    desiredFormats: { type: "enumList", values: EVENT_FORMATS },
+    specialEventInfo: { type: "object" },
+    "specialEventInfo.type": { type: "string" },
+    "specialEventInfo.eventTypes": { type: "stringList" },
+    "specialEventInfo.userDefinedEventType": { type: "string" },
+    locationInfo: { type: "object" },
+    "locationInfo.type": { type: "enum", values: LOCATION_TYPES },
+    "locationInfo.city": { type: "string" },
+    "locationInfo.state": { type: "string" },
+    "locationInfo.locationName": { type: "string" },
+    budget: { type: "number", min: 0 },
+    eventDate: { type: "dateRange" },
+    interestedInBulkAssessments: { type: "boolean" },
+    referralInfo: { type: "object" },
+    "referralInfo.source": { type: "string" },
+    "referralInfo.moreInfo": { type: "string" },
+  } satisfies FieldRules<LiveEventData>,
+  columns: [
+    "Name",
+    "Email",
+    "Phone Number",
+    "Job Title",
+    "Organization",
+    "Website",
+    "Estimated Attendees",
+    "Content Type",
+    "Duration",
+    "Event Formats",
+    "Event Group Type",
+    "Event Types",
+    "Custom Event Type",
+    "Location Type",
+    "City",
+    "State",
+    "Location Name",
+    "Budget",
+    "Event Date",
+    "Interested In Bulk Assessments",
+    "Referral Source",
+    "Referral Info",
+    "Submission Date",
+  ],
+  maxLengths: {
+    "Name": 200,
+    "Email": 254,
+    "Job Title": 200,
+    "Organization": 200,
+    "Website": 2048,
+    "Content Type": 200,
+    "Duration": 200,
+    "Custom Event Type": 200,
+    "City": 200,
+    "State": 100,
+    "Location Name": 200,
+    "Referral Source": 200,
+    "Referral Info": 5000,
+  },
+  alertColumns: [
+    "Organization",
+    "Estimated Attendees",
+    "Budget",
+    "Event Date",
+    "City",
+    "State",
+    "Location Name",
+    "Referral Source",
+  ],
+  spamProtection: {
+    captcha: true,
+    honeypotField: "honeypot",
+    minimumFillSeconds: 3,
+  },
+  formatRow: (data, timestamp) => ({
+    "Name": data.name,
+    "Email": data.email,
+    "Phone Number": data.phoneNumber,
+    "Job Title": data.jobTitle || "",
+    "Organization": data.organizationName || "",
+    "Website": data.websiteUrl || "",
+    "Estimated Attendees": data.estimatedAttendees,
+    "Content Type": data.desiredContentType || "",
+    "Duration": data.desiredDuration || "",
+    "Event Formats": formatList(data.desiredFormats),
+    "Event Group Type": data.specialEventInfo?.type || "",
+    "Event Types": formatList(data.specialEventInfo?.eventTypes),
+    "Custom Event Type": data.specialEventInfo?.userDefinedEventType || "",
+    "Location Type": data.locationInfo?.type || "",
+    "City": data.locationInfo?.city || "",
+    "State": data.locationInfo?.state || "",
+    "Location Name": data.locationInfo?.locationName || "",
+    "Budget": data.budget?.toString() || "",
+    "Event Date": formatEventDate(data.eventDate),
+    "Interested In Bulk Assessments": data.interestedInBulkAssessments === true
+      ? "Yes"
+      : "No",
+    "Referral Source": data.referralInfo?.source || "",
+    "Referral Info": data.referralInfo?.moreInfo || "",
+    "Submission Date": timestamp,
+  }),
+};
@@ -0,0 +1,19 @@
+import { bulkAssessment } from "./bulk-assessment.ts";
+import { liveEvent } from "./live-event.ts";
+import { userSignup } from "./user-signup.ts";
+import type { DataTypeDefinition } from "./types.ts";
+
+// Register new form data types here; the request handler looks them up by dataType
+const definitions: DataTypeDefinition[] = [
+  bulkAssessment,
+  liveEvent,
+  userSignup,
+];
+
+export const dataTypeRegistry = new Map<string, DataTypeDefinition>(
+  definitions.map((definition) => [definition.dataType, definition]),
+);
+
+export const getDataTypeDefinition = (
+  dataType: string,
+): DataTypeDefinition | undefined => dataTypeRegistry.get(dataType);
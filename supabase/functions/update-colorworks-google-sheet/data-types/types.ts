@@ -0,0 +1,63 @@
+import type { FieldRule } from "./validation.ts";
+
+// Define a type for row data
+export type SheetRowData = Record<string, string | number | boolean | null>;
+
+// Minimal shape shared by every incoming `data` payload
+export type DataPayload = {
+  dataType: string;
+  [key: string]: unknown;
+};
+
+// Checks for public forms; submissions failing them go to the quarantine tab
+export type SpamProtection = {
+  // Require a valid captchaToken in the payload
+  captcha?: boolean;
+  // Hidden form field that people leave empty and bots fill in
+  honeypotField?: string;
+  // Submissions sent sooner than this after formStartedAt are from bots
+  minimumFillSeconds?: number;
+};
+
+// Dot paths of a payload's fields, e.g. "locationInfo.city"
+export type FieldPath<T> = {
+  [K in keyof T & string]: NonNullable<T[K]> extends unknown[] ? K
+    : NonNullable<T[K]> extends Record<string, unknown>
+      ? K | `${K}.${FieldPath<NonNullable<T[K]>>}`
+    : K;
+}[keyof T & string];
+
+// Field rules of a payload type; definitions use `satisfies FieldRules<T>` so
+// rules cannot name fields the type lacks, which keeps the payload types and
+// the OpenAPI document in step
+export type FieldRules<T> = { [Path in FieldPath<T>]?: FieldRule };
+
+/**
+ * Declarative description of a form submission type.
+ * Each data type is declared once with the fields it requires and accepts, the
+ * tab it is written to, that tab's columns and the mapping from its payload to them.
+ */
+export type DataTypeDefinition<T extends DataPayload = DataPayload> = {
+  dataType: T["dataType"];
+  tabName: string;
+  requiredFields: string[];
+  // Checks and normalization per field path, e.g. "locationInfo.type"
+  fields?: Record<string, FieldRule>;
+  // "reject" fails submissions with fields that have no rule; by default they
+  // are ignored, as the public forms' frontends may send extra fields
+  unknownFields?: "ignore" | "reject";
+  // Sheet column identifying a submitter; a matching row is updated instead of appended
+  keyColumn?: string;
+  // Header row of the tab, in order; used when creating the tab
+  columns: string[];
+  // Longest value per column; longer values are truncated when written
+  maxLengths?: Record<string, number>;
+  // Column the rows endpoint filters by date; defaults to "Submission Date"
+  dateColumn?: string;
+  // Omitted for data types sent by our own backend
+  spamProtection?: SpamProtection;
+  // Columns summarized in new-lead alerts, see LEAD_ALERTS
+  alertColumns?: string[];
+  // Keys of the returned row must match the header names in the Google Sheet
+  formatRow(data: T, timestamp: string): SheetRowData;
+};
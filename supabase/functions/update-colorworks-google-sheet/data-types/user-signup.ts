@@ -0,0 +1,38 @@
+import type { UserSignupData } from "../../_shared/form-payloads.ts";
+import type { DataTypeDefinition, FieldPath, FieldRules } from "./types.ts";
+
+export const userSignup: DataTypeDefinition<UserSignupData> = {
+  dataType: "user-signup",
+  tabName: "User Signups",
+  keyColumn: "Email",
+  requiredFields: [
+    "email",
+    "firstName",
+    "lastName",
+    "createdDate",
+  ] satisfies FieldPath<UserSignupData>[],
+  fields: {
+    email: { type: "email" },
+    firstName: { type: "string" },
+    lastName: { type: "string" },
+    createdDate: { type: "date" },
+  } satisfies FieldRules<UserSignupData>,
+  // Sent by our own backend, so anything else is a bug
+  unknownFields: "reject",
+  columns: [
+    "Email",
+    "First Name",
+    "Last Name",
+    "Created Date",
+    "Signup Date",
+  ],
+  dateColumn: "Signup Date",
+  maxLengths: { "Email": 254, "First Name": 200, "Last Name": 200 },
+  formatRow: (data, timestamp) => ({
+    "Email": data.email,
+    "First Name": data.firstName,
+    "Last Name": data.lastName,
+    "Created Date": data.createdDate,
+    "Signup Date": timestamp,
+  }),
+};
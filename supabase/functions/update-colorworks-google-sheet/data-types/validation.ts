@@ -0,0 +1,322 @@
+import type { FieldError } from "../../_shared/form-payloads.ts";
+import type { DataPayload, DataTypeDefinition } from "./types.ts";
+
+export type {
+  FieldError,
+  FieldErrorCode,
+} from "../../_shared/form-payloads.ts";
+
+// How a payload field is checked and normalized before it is written
+export type FieldRule =
+  | { type: "string" }
+  | { type: "email" }
+  // Normalized to E.164, e.g. +17575550100
+  | { type: "phone" }
+  | { type: "number"; integer?: boolean; min?: number; max?: number }
+  | { type: "boolean" }
+  // ISO 8601 date or date-time
+  | { type: "date" }
+  // A date or a { startDate, endDate } range that is not inverted
+  | { type: "dateRange" }
+  // Matched case-insensitively and normalized to the listed spelling
+  | { type: "enum"; values: string[] }
+  | { type: "enumList"; values: string[] }
+  | { type: "stringList" }
+  // Container for nested rules such as "locationInfo.city"
+  | { type: "object" };
+
+export type ValidationResult = {
+  errors: FieldError[];
+  // Payload with normalized values, e.g. trimmed strings
+  data: DataPayload;
+};
+
+// US numbers may be sent without their country code
+const DEFAULT_COUNTRY_CODE = "1";
+
+// Sent with every public form for spam checks, see spam-check.ts
+const SPAM_CHECK_FIELDS = ["captchaToken", "formStartedAt"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ISO_DATE_PATTERN =
+  /^(\d{4}-\d{2}-\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+type FieldCheck = { value?: unknown; error?: Omit<FieldError, "field"> };
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null ||
+  (typeof value === "string" && value.trim() === "");
+
+const invalidType = (expected: string): FieldCheck => ({
+  error: { code: "invalid_type", message: `Must be ${expected}` },
+});
+
+const invalidFormat = (message: string): FieldCheck => ({
+  error: { code: "invalid_format", message },
+});
+
+/**
+ * Phone number in E.164 form, or undefined when it cannot be one
+ */
+export const normalizePhoneNumber = (value: string): string | undefined => {
+  const compact = value.replace(/[\s().-]/g, "");
+  if (/^\+[1-9]\d{7,14}$/.test(compact)) {
+    return compact;
+  }
+  if (/^\d{10}$/.test(compact)) {
+    return `+${DEFAULT_COUNTRY_CODE}${compact}`;
+  }
+  if (/^1\d{10}$/.test(compact)) {
+    return `+${compact}`;
+  }
+  return undefined;
+};
+
+// Whether a string is an ISO 8601 date or date-time on a real calendar day
+const isIsoDate = (value: string): boolean => {
+  const match = value.match(ISO_DATE_PATTERN);
+  if (!match || Number.isNaN(Date.parse(value))) {
+    return false;
+  }
+  const day = new Date(`${match[1]}T00:00:00Z`);
+  return !Number.isNaN(day.getTime()) &&
+    day.toISOString().slice(0, 10) === match[1];
+};
+
+const checkDate = (value: unknown): FieldCheck => {
+  if (typeof value !== "string") {
+    return invalidType("a date");
+  }
+  const trimmed = value.trim();
+  return isIsoDate(trimmed)
+    ? { value: trimmed }
+    : invalidFormat("Must be an ISO 8601 date, e.g. 2026-11-02");
+};
+
+const checkEnum = (value: unknown, values: string[]): FieldCheck => {
+  const match = typeof value === "string" &&
+    values.find((option) =>
+      option.toLowerCase() === value.trim().toLowerCase()
+    );
+  return match ? { value: match } : {
+    error: {
+      code: "invalid_value",
+      message: `Must be one of: ${values.join(", ")}`,
+    },
+  };
+};
+
+const checkNumber = (
+  value: unknown,
+  rule: Extract<FieldRule, { type: "number" }>,
+): FieldCheck => {
+  // Form inputs may send numbers as strings
+  const number = typeof value === "string" && value.trim() !== ""
+    ? Number(value)
+    : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    return invalidType("a number");
+  }
+  if (rule.integer && !Number.isInteger(number)) {
+    return invalidType("a whole number");
+  }
+  if (rule.min !== undefined && number < rule.min) {
+    return {
+      error: { code: "too_small", message: `Must be at least ${rule.min}` },
+    };
+  }
+  if (rule.max !== undefined && number > rule.max) {
+    return {
+      error: { code: "too_large", message: `Must be at most ${rule.max}` },
+    };
+  }
+  return { value: number };
+};
+
+const checkField = (value: unknown, rule: FieldRule): FieldCheck => {
+  switch (rule.type) {
+    case "string":
+      return typeof value === "string"
+        ? { value: value.trim() }
+        : invalidType("text");
+    case "email": {
+      if (typeof value !== "string") {
+        return invalidType("an email address");
+      }
+      const email = value.trim();
+      return EMAIL_PATTERN.test(email)
+        ? { value: email }
+        : invalidFormat("Must be a valid email address");
+    }
+    case "phone": {
+      const phoneNumber = typeof value === "string"
+        ? normalizePhoneNumber(value)
+        : undefined;
+      return phoneNumber
+        ? { value: phoneNumber }
+        : invalidFormat("Must be a valid phone number");
+    }
+    case "number":
+      return checkNumber(value, rule);
+    case "boolean":
+      return typeof value === "boolean"
+        ? { value }
+        : invalidType("true or false");
+    case "date":
+      return checkDate(value);
+    case "dateRange": {
+      if (typeof value === "string") {
+        return checkDate(value);
+      }
+      if (typeof value !== "object" || value === null) {
+        return invalidType("a date or a date range");
+      }
+      const range = value as { startDate?: unknown; endDate?: unknown };
+      const start = checkDate(range.startDate);
+      const end = checkDate(range.endDate);
+      if (start.error || end.error) {
+        return invalidFormat(
+          "startDate and endDate must be ISO 8601 dates, e.g. 2026-11-02",
+        );
+      }
+      if (
+        Date.parse(String(start.value)) > Date.parse(String(end.value))
+      ) {
+        return {
+          error: {
+            code: "invalid_range",
+            message: "endDate must not be before startDate",
+          },
+        };
+      }
+      return { value: { startDate: start.value, endDate: end.value } };
+    }
+    case "enum":
+      return checkEnum(value, rule.values);
+    case "enumList":
+    case "stringList": {
+      if (!Array.isArray(value)) {
+        return invalidType("a list");
+      }
+      const items = value.map((item) =>
+        rule.type === "enumList"
+          ? checkEnum(item, rule.values)
+          : checkField(item, { type: "string" })
+      );
+      const failed = items.find((item) => item.error);
+      return failed ?? { value: items.map((item) => item.value) };
+    }
+    case "object":
+      return typeof value === "object" && value !== null &&
+          !Array.isArray(value)
+        ? { value }
+        : invalidType("an object");
+  }
+};
+
+const getPath = (data: Record<string, unknown>, path: string): unknown =>
+  path.split(".").reduce<unknown>(
+    (value, key) =>
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    data,
+  );
+
+const setPath = (
+  data: Record<string, unknown>,
+  path: string,
+  value: unknown,
+): void => {
+  const keys = path.split(".");
+  const parent = keys.slice(0, -1).reduce<Record<string, unknown>>(
+    (object, key) => object[key] as Record<string, unknown>,
+    data,
+  );
+  parent[keys[keys.length - 1]] = value;
+};
+
+// Fields of objects with declared rules that have no rule of their own
+const findUnknownFields = (
+  definition: DataTypeDefinition,
+  data: Record<string, unknown>,
+): string[] => {
+  const known = new Set([
+    "dataType",
+    ...definition.requiredFields,
+    ...Object.keys(definition.fields ?? {}),
+    ...(definition.spamProtection
+      ? [...SPAM_CHECK_FIELDS, definition.spamProtection.honeypotField ?? ""]
+      : []),
+  ]);
+  const objectPaths = [
+    "",
+    ...Object.entries(definition.fields ?? {})
+      .filter(([, rule]) => rule.type === "object")
+      .map(([path]) => path),
+  ];
+
+  return objectPaths.flatMap((objectPath) => {
+    const value = objectPath ? getPath(data, objectPath) : data;
+    if (typeof value !== "object" || value === null) {
+      return [];
+    }
+    return Object.keys(value)
+      .map((key) => (objectPath ? `${objectPath}.${key}` : key))
+      .filter((path) => !known.has(path));
+  });
+};
+
+/**
+ * Checks a payload against its data type's required fields and field rules.
+ * Nested fields are named by their path, e.g. "locationInfo.type".
+ */
+export function validateSubmission(
+  definition: DataTypeDefinition,
+  data: DataPayload,
+): ValidationResult {
+  const normalized = structuredClone(data);
+  const errors: FieldError[] = [];
+  const rules = definition.fields ?? {};
+  const paths = [
+    ...new Set([...definition.requiredFields, ...Object.keys(rules)]),
+  ];
+
+  for (const path of paths) {
+    // Nested rules are skipped once their object failed
+    if (errors.some((error) => path.startsWith(`${error.field}.`))) {
+      continue;
+    }
+
+    const value = getPath(normalized, path);
+    if (isEmpty(value)) {
+      if (definition.requiredFields.includes(path)) {
+        errors.push({ field: path, code: "required", message: "Required" });
+      }
+      continue;
+    }
+
+    const rule = rules[path];
+    if (!rule) {
+      continue;
+    }
+    const check = checkField(value, rule);
+    if (check.error) {
+      errors.push({ field: path, ...check.error });
+    } else {
+      setPath(normalized, path, check.value);
+    }
+  }
+
+  if (definition.unknownFields === "reject") {
+    for (const field of findUnknownFields(definition, data)) {
+      errors.push({
+        field,
+        code: "unknown_field",
+        message: "Not a field of this form",
+      });
+    }
+  }
+
+  return { errors, data: normalized };
+}
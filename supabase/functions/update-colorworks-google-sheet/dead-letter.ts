@@ -0,0 +1,147 @@
+import { logger } from "../_shared/logger.ts";
+import { supabaseRest } from "../_shared/supabase-rest.ts";
+import type { SheetRowData } from "./data-types/types.ts";
+
+const TABLE = "failed_sheet_submissions";
+
+// Rows claimed by a replay that never finished, e.g. because the isolate
+// crashed, can be claimed again after this long
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+// Row of the failed_sheet_submissions table
+export type FailedSubmission = {
+  id: string;
+  data_type: string;
+  sheet_id: string;
+  tab_name: string;
+  row: SheetRowData;
+  error: string;
+  attempts: number;
+  // "replaying" while a replay has claimed the row
+  status: "pending" | "replaying" | "replayed";
+  created_at: string;
+  last_attempt_at: string;
+  replayed_at: string | null;
+};
+
+type NewFailedSubmission = {
+  dataType: string;
+  sheetId: string;
+  tabName: string;
+  row: SheetRowData;
+  error: string;
+};
+
+/**
+ * Persists a row that could not be written to Google Sheets so it can be
+ * replayed later. Returns the stored record ID, or undefined if the database
+ * is unavailable as well.
+ */
+export const saveFailedSubmission = async (
+  submission: NewFailedSubmission,
+): Promise<string | undefined> => {
+  try {
+    const inserted = await supabaseRest<Pick<FailedSubmission, "id">[]>(
+      `${TABLE}?select=id`,
+      {
+        method: "POST",
+        headers: { Prefer: "return=representation" },
+        body: JSON.stringify({
+          data_type: submission.dataType,
+          sheet_id: submission.sheetId,
+          tab_name: submission.tabName,
+          row: submission.row,
+          error: submission.error,
+        }),
+      },
+    );
+    const id = inserted?.[0]?.id;
+    logger.info("Failed submission stored for replay", { id });
+    return id;
+  } catch (error) {
+    logger.error("Failed to store submission for replay", { error });
+    return undefined;
+  }
+};
+
+// Rows that are waiting for a replay, including stale claims
+const claimableFilter = (now: number): string =>
+  `(status.eq.pending,and(status.eq.replaying,last_attempt_at.lt.${
+    new Date(now - STALE_CLAIM_MS).toISOString()
+  }))`;
+
+/**
+ * Claims up to `limit` stored rows, oldest first, by moving them to
+ * "replaying". Only rows this call moved are returned, so concurrent replays
+ * never write the same row twice.
+ */
+export const claimPendingSubmissions = async (
+  options: { ids?: string[]; limit: number },
+): Promise<FailedSubmission[]> => {
+  const now = Date.now();
+  const params = new URLSearchParams({
+    select: "id",
+    or: claimableFilter(now),
+    order: "created_at.asc",
+    limit: String(options.limit),
+  });
+  if (options.ids && options.ids.length > 0) {
+    params.set("id", `in.(${options.ids.join(",")})`);
+  }
+  const candidates = await supabaseRest<Pick<FailedSubmission, "id">[]>(
+    `${TABLE}?${params}`,
+  ) ?? [];
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  // The filter is checked again by the update, so rows claimed in between
+  // by another replay are left out
+  const claimParams = new URLSearchParams({
+    id: `in.(${candidates.map((candidate) => candidate.id).join(",")})`,
+    or: claimableFilter(now),
+  });
+  const claimed = await supabaseRest<FailedSubmission[]>(
+    `${TABLE}?${claimParams}`,
+    {
+      method: "PATCH",
+      headers: { Prefer: "return=representation" },
+      body: JSON.stringify({
+        status: "replaying",
+        last_attempt_at: new Date(now).toISOString(),
+      }),
+    },
+  ) ?? [];
+  return claimed.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+export const markSubmissionReplayed = async (
+  submission: FailedSubmission,
+): Promise<void> => {
+  const now = new Date().toISOString();
+  await supabaseRest(`${TABLE}?id=eq.${submission.id}&status=eq.replaying`, {
+    method: "PATCH",
+    body: JSON.stringify({
+      status: "replayed",
+      attempts: submission.attempts + 1,
+      last_attempt_at: now,
+      replayed_at: now,
+    }),
+  });
+};
+
+// Releases the claim so the row is picked up by the next replay
+export const recordReplayFailure = async (
+  submission: FailedSubmission,
+  error: string,
+): Promise<void> => {
+  await supabaseRest(`${TABLE}?id=eq.${submission.id}&status=eq.replaying`, {
+    method: "PATCH",
+    body: JSON.stringify({
+      status: "pending",
+      error,
+      attempts: submission.attempts + 1,
+      last_attempt_at: new Date().toISOString(),
+    }),
+  });
+};
@@ -0,0 +1,347 @@
+import {
+  ADMIN_SCOPE,
+  type ApiClient,
+  hasScope,
+  isDataTypeAllowed,
+} from "../_shared/api-keys.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  GoogleSheetsApiError,
+  quoteSheetTitle,
+  type SheetsClient,
+} from "../_shared/google-sheets-client.ts";
+import { logger } from "../_shared/logger.ts";
+import {
+  authorizeSheetsClient,
+  getServiceAccounts,
+  type ServiceAccount,
+  type ServiceAccounts,
+} from "../_shared/service-accounts.ts";
+import { validateRequest } from "../_shared/validate-request.ts";
+import { dataTypeRegistry } from "./data-types/registry.ts";
+import {
+  getSheetTargets,
+  loadSheetRoutes,
+  type SheetRoutes,
+} from "./sheet-routes.ts";
+import { getQuarantineDefinition } from "./spam-check.ts";
+
+export type CheckStatus = "pass" | "fail" | "skipped";
+
+// One step of a write that can be checked without writing
+export type DiagnosticCheck = {
+  check: "credentials" | "routes" | "token" | "spreadsheet" | "tab" | "header";
+  status: CheckStatus;
+  message: string;
+  sheetId?: string;
+  tabName?: string;
+  // Data types written to the tab
+  dataTypes?: string[];
+  account?: string;
+  missingColumns?: string[];
+  unknownColumns?: string[];
+  details?: unknown;
+};
+
+export type DiagnosticsReport = {
+  success: boolean;
+  checkedAt: string;
+  checks: DiagnosticCheck[];
+};
+
+// Tab and the columns every data type writing to it expects
+type TabExpectation = { dataTypes: string[]; columns: string[] };
+
+const jsonResponse = (body: unknown, status: number): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Tabs to check by spreadsheet, for the data types the caller may see
+const collectTabs = (
+  routes: SheetRoutes,
+  client: ApiClient,
+): Map<string, Map<string, TabExpectation>> => {
+  const tabs = new Map<string, Map<string, TabExpectation>>();
+  const definitions = [...dataTypeRegistry.values(), getQuarantineDefinition()]
+    .filter((definition) => isDataTypeAllowed(client, definition.dataType));
+
+  for (const definition of definitions) {
+    const targets = getSheetTargets(
+      routes,
+      definition.dataType,
+      definition.tabName,
+    );
+    for (const { sheetId, tabName } of targets) {
+      const sheetTabs = tabs.get(sheetId) ?? new Map();
+      tabs.set(sheetId, sheetTabs);
+      const tab: TabExpectation = sheetTabs.get(tabName) ??
+        { dataTypes: [], columns: [] };
+      tab.dataTypes.push(definition.dataType);
+      tab.columns = [...new Set([...tab.columns, ...definition.columns])];
+      sheetTabs.set(tabName, tab);
+    }
+  }
+  return tabs;
+};
+
+// Tab and header checks that could not run, e.g. without a token
+const skipTabChecks = (
+  sheetId: string,
+  sheetTabs: Map<string, TabExpectation>,
+  reason: string,
+): DiagnosticCheck[] =>
+  [...sheetTabs].flatMap(([tabName, { dataTypes }]) =>
+    (["tab", "header"] as const).map((check) => ({
+      check,
+      status: "skipped" as const,
+      message: reason,
+      sheetId,
+      tabName,
+      dataTypes,
+    }))
+  );
+
+// Compares a tab's header row with the columns its data types write
+const checkHeaderRow = async (
+  client: SheetsClient,
+  sheetId: string,
+  tabName: string,
+  { dataTypes, columns }: TabExpectation,
+): Promise<DiagnosticCheck> => {
+  const check = { check: "header" as const, sheetId, tabName, dataTypes };
+  try {
+    const headerRange = await client.getValues(
+      sheetId,
+      `${quoteSheetTitle(tabName)}!1:1`,
+    );
+    const headerValues = (headerRange.values?.[0] ?? []).map((header) =>
+      String(header ?? "").trim()
+    );
+    const missingColumns = columns.filter((column) =>
+      !headerValues.includes(column)
+    );
+    const unknownColumns = headerValues.filter((header) =>
+      header && !columns.includes(header)
+    );
+    if (missingColumns.length === 0) {
+      return {
+        ...check,
+        status: "pass",
+        message: "Header row has every written column",
+        unknownColumns,
+      };
+    }
+    return {
+      ...check,
+      status: "fail",
+      message: headerValues.some(Boolean)
+        ? `Header row is missing ${missingColumns.length} column(s)`
+        : "Tab has no header row",
+      missingColumns,
+      unknownColumns,
+    };
+  } catch (error) {
+    return {
+      ...check,
+      status: "fail",
+      message: `Could not read the header row: ${(error as Error).message}`,
+    };
+  }
+};
+
+/**
+ * Checks one spreadsheet the way a write would reach it: its account's token,
+ * access to the spreadsheet, then each configured tab and its header row
+ */
+const checkSpreadsheet = async (
+  accounts: ServiceAccounts,
+  sheetId: string,
+  sheetTabs: Map<string, TabExpectation>,
+): Promise<DiagnosticCheck[]> => {
+  const checks: DiagnosticCheck[] = [];
+
+  let account: ServiceAccount;
+  let client: SheetsClient;
+  try {
+    account = accounts.forSpreadsheet(sheetId);
+    const authorized = await authorizeSheetsClient(account);
+    client = authorized.client;
+    checks.push({
+      check: "token",
+      status: "pass",
+      message: `Access token obtained with ${authorized.key.source}`,
+      sheetId,
+      account: account.name,
+    });
+  } catch (error) {
+    const reason = "Skipped: no access token";
+    return [
+      {
+        check: "token",
+        status: "fail",
+        message: (error as Error).message,
+        sheetId,
+      },
+      { check: "spreadsheet", status: "skipped", message: reason, sheetId },
+      ...skipTabChecks(sheetId, sheetTabs, reason),
+    ];
+  }
+
+  let tabTitles: string[];
+  try {
+    const spreadsheet = await client.getSpreadsheet(sheetId);
+    tabTitles = spreadsheet.sheets.map((sheet) => sheet.properties.title);
+    checks.push({
+      check: "spreadsheet",
+      status: "pass",
+      message: `Opened "${spreadsheet.properties.title}"`,
+      sheetId,
+    });
+  } catch (error) {
+    // Google answers 404 rather than 403 for spreadsheets it hides
+    const notShared = error instanceof GoogleSheetsApiError &&
+      (error.status === 403 || error.status === 404);
+    const clientEmail = account.keys[0].credentials.client_email;
+    return [
+      ...checks,
+      {
+        check: "spreadsheet",
+        status: "fail",
+        message: notShared
+          ? `Spreadsheet not found or not shared with ${clientEmail}`
+          : (error as Error).message,
+        sheetId,
+        account: account.name,
+      },
+      ...skipTabChecks(sheetId, sheetTabs, "Skipped: spreadsheet not opened"),
+    ];
+  }
+
+  for (const [tabName, tab] of sheetTabs) {
+    const { dataTypes } = tab;
+    if (!tabTitles.includes(tabName)) {
+      checks.push(
+        {
+          check: "tab",
+          status: "fail",
+          message: "Tab not found; the first write will create it",
+          sheetId,
+          tabName,
+          dataTypes,
+        },
+        {
+          check: "header",
+          status: "skipped",
+          message: "Skipped: tab not found",
+          sheetId,
+          tabName,
+          dataTypes,
+        },
+      );
+      continue;
+    }
+    checks.push({
+      check: "tab",
+      status: "pass",
+      message: "Tab found",
+      sheetId,
+      tabName,
+      dataTypes,
+    });
+    checks.push(await checkHeaderRow(client, sheetId, tabName, tab));
+  }
+  return checks;
+};
+
+/**
+ * Runs every check a write depends on without writing: credentials, routes,
+ * and for each spreadsheet the token, access, tabs and header rows
+ */
+export async function runDiagnostics(
+  client: ApiClient,
+): Promise<DiagnosticsReport> {
+  const checks: DiagnosticCheck[] = [];
+
+  const accounts = await getServiceAccounts();
+  const { healthy, accounts: loaded, problems } = accounts.report();
+  checks.push({
+    check: "credentials",
+    status: healthy ? "pass" : "fail",
+    message: healthy
+      ? `${loaded.length} service account(s) loaded`
+      : `${problems.length} problem(s) with service account keys`,
+    details: { accounts: loaded, problems },
+  });
+
+  const sheetRoutes = loadSheetRoutes();
+  if (!sheetRoutes.success || !sheetRoutes.routes) {
+    checks.push({
+      check: "routes",
+      status: "fail",
+      message: sheetRoutes.error ?? "Invalid sheet routes",
+    });
+  } else {
+    checks.push({ check: "routes", status: "pass", message: "Routes loaded" });
+    for (
+      const [sheetId, sheetTabs] of collectTabs(sheetRoutes.routes, client)
+    ) {
+      checks.push(...await checkSpreadsheet(accounts, sheetId, sheetTabs));
+    }
+  }
+
+  return {
+    success: checks.every((check) => check.status !== "fail"),
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+}
+
+/**
+ * Reports whether every step of a write would work, as JSON with pass or fail
+ * per check; 503 when any check failed. Admin callers only, as the report
+ * describes the configuration.
+ */
+export async function handleDiagnosticsRequest(
+  req: Request,
+): Promise<Response> {
+  const validation = await validateRequest(req, { method: "GET" });
+  if (!validation.success) {
+    logger.error("Diagnostics request validation failed");
+    return validation.response as Response;
+  }
+  const client = validation.client as ApiClient;
+  if (!hasScope(client, ADMIN_SCOPE)) {
+    logger.warn("API key is not allowed to run diagnostics", {
+      apiKeyName: client.name,
+    });
+    return jsonResponse(
+      {
+        error:
+          `API key "${client.name}" does not have the ${ADMIN_SCOPE} scope`,
+      },
+      403,
+    );
+  }
+
+  const report = await runDiagnostics(client);
+  const failed = report.checks.filter((check) => check.status === "fail");
+  logger.info("Diagnostics completed", {
+    success: report.success,
+    failedChecks: failed.map(({ check, tabName }) => ({ check, tabName })),
+  });
+  return jsonResponse(report, report.success ? 200 : 503);
+}
+
+/**
+ * Liveness for uptime monitors: no authentication and no Google requests,
+ * only whether the service account keys loaded at cold start are valid
+ */
+export async function handleLivenessRequest(): Promise<Response> {
+  const { healthy } = (await getServiceAccounts()).report();
+  return jsonResponse(
+    { status: healthy ? "ok" : "fail" },
+    healthy ? 200 : 503,
+  );
+}
@@ -0,0 +1,630 @@
+import { type ApiClient, isDataTypeAllowed } from "../_shared/api-keys.ts";
+import {
+  type CaptchaVerifier,
+  createDefaultCaptchaVerifier,
+} from "../_shared/captcha.ts";
+import {
+  corsHeaders,
+  type CorsPolicy,
+  getCorsOriginHeaders,
+  isOriginAllowed,
+  loadCorsPolicy,
+} from "../_shared/cors.ts";
+import { useEdgeRuntimeWaitUntil } from "../_shared/edge-runtime.ts";
+import type {
+  AcceptedResponse,
+  SubmitResponse,
+} from "../_shared/form-payloads.ts";
+import { logger, runWithLogContext } from "../_shared/logger.ts";
+import { createDefaultNotifier, type Notifier } from "../_shared/notifier.ts";
+import {
+  createRateLimiter,
+  getClientIp,
+  type RateLimitDecision,
+  type RateLimiter,
+  rateLimitHeaders,
+} from "../_shared/rate-limiter.ts";
+import { validateRequest } from "../_shared/validate-request.ts";
+import { MAX_BATCH_RECORDS, processBatch } from "./batch.ts";
+import type { DataPayload } from "./data-types/types.ts";
+import {
+  handleDiagnosticsRequest,
+  handleLivenessRequest,
+} from "./diagnostics.ts";
+import {
+  createDefaultIdempotencyStore,
+  getIdempotencyKey,
+  type IdempotencyClaim,
+  type IdempotencyStore,
+} from "./idempotency.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+import { handleReplayRequest } from "./replay.ts";
+import { handleRowsRequest } from "./rows.ts";
+import { getSheetTargets, loadSheetRoutes } from "./sheet-routes.ts";
+import { screenSubmission } from "./spam-check.ts";
+import {
+  createDefaultSubmissionStore,
+  handleStatusRequest,
+  type SubmissionStatusStore,
+  wantsAsyncWrite,
+  writeQueuedSubmission,
+} from "./submission-status.ts";
+import { prepareSubmission, writeRoutedSubmission } from "./submission.ts";
+
+// 429 response carrying the standard rate limit headers
+function tooManyRequestsResponse(decision: RateLimitDecision): Response {
+  return new Response(
+    JSON.stringify({ error: "Too many requests, please try again later" }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        ...rateLimitHeaders(decision),
+        "Content-Type": "application/json",
+      },
+    },
+  );
+}
+
+// 403 for a caller whose API key does not cover every submitted dataType
+function dataTypeNotAllowedResponse(
+  client: ApiClient,
+  dataTypes: string[],
+): Response {
+  logger.warn("API key is not allowed to submit data types", {
+    apiKeyName: client.name,
+    dataTypes,
+  });
+  return new Response(
+    JSON.stringify({
+      error: `API key "${client.name}" is not allowed to submit: ${
+        dataTypes.join(", ")
+      }`,
+    }),
+    {
+      status: 403,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    },
+  );
+}
+
+/**
+ * Response for a request whose idempotency key was already used: the stored
+ * result of the original request, a conflict while it is still running, or
+ * 422 when the key was used for different data
+ */
+function idempotentReplayResponse(
+  claim: Exclude<IdempotencyClaim, { state: "claimed" }>,
+): Response {
+  if (claim.state === "completed") {
+    logger.info("Returning stored result for repeated submission");
+    return new Response(
+      JSON.stringify({ ...claim.response, replayed: true }),
+      {
+        status: claim.statusCode,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  if (claim.state === "mismatch") {
+    logger.warn("Idempotency key reused for different data");
+    return new Response(
+      JSON.stringify({
+        error: "Idempotency-Key was already used for a different submission",
+        replayed: false,
+      }),
+      {
+        status: 422,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      error: "An identical submission is already being processed",
+      replayed: false,
+    }),
+    {
+      status: 409,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    },
+  );
+}
+
+interface RequestData {
+  data: DataPayload;
+  records?: DataPayload[];
+  [key: string]: unknown;
+}
+
+type HandlerOptions = {
+  // Defaults to the shared limiter, backed by Postgres when it is configured
+  rateLimiter?: RateLimiter;
+  // Defaults to the allowlist in CORS_ALLOWED_ORIGINS for this environment
+  corsPolicy?: CorsPolicy;
+  // Defaults to the provider in CAPTCHA_PROVIDER; none when it has no secret
+  captchaVerifier?: CaptchaVerifier;
+  // Defaults to the channels configured in the environment
+  notifier?: Notifier;
+  // Tracks submissions written in the background; defaults to Postgres when
+  // it is configured
+  submissionStore?: SubmissionStatusStore;
+  // Stored results of idempotency keys; defaults to Postgres when it is
+  // configured, otherwise repeats are not detected
+  idempotencyStore?: IdempotencyStore;
+};
+
+type HandlerDependencies = {
+  rateLimiter: RateLimiter;
+  corsPolicy: CorsPolicy;
+  captchaVerifier?: CaptchaVerifier;
+  notifier: Notifier;
+  submissionStore: SubmissionStatusStore;
+  idempotencyStore: IdempotencyStore;
+};
+
+// Longest caller-supplied X-Request-Id that is kept
+const MAX_REQUEST_ID_LENGTH = 128;
+
+async function handleRequest(
+  req: Request,
+  {
+    rateLimiter,
+    corsPolicy,
+    captchaVerifier,
+    notifier,
+    submissionStore,
+    idempotencyStore,
+  }: HandlerDependencies,
+): Promise<Response> {
+  // Refuse pages on other sites before doing any work for them
+  const origin = req.headers.get("origin");
+  if (!isOriginAllowed(origin, corsPolicy)) {
+    logger.warn("Request from disallowed origin", { origin });
+    return new Response(JSON.stringify({ error: "Origin not allowed" }), {
+      status: 403,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // Handle CORS
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Unauthenticated routes, answered before logging
+  const pathname = new URL(req.url).pathname;
+  if (req.method === "GET" && pathname.endsWith("/health")) {
+    return await handleLivenessRequest();
+  }
+
+  // Public OpenAPI document, for generating clients
+  if (req.method === "GET" && pathname.endsWith("/openapi.json")) {
+    return new Response(JSON.stringify(buildOpenApiDocument()), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // Set once this request has claimed an idempotency key
+  let idempotencyKey: string | undefined;
+
+  try {
+    // Add detailed request logging; auth headers are redacted
+    logger.info("Request received", {
+      method: req.method,
+      url: req.url,
+      headers: req.headers,
+    });
+
+    // Get client IP for rate limiting
+    const clientIp = getClientIp(req);
+    const isReplay = pathname.endsWith("/replay");
+    const isRowsQuery = req.method === "GET" && pathname.endsWith("/rows");
+    const isStatusQuery = req.method === "GET" &&
+      /\/submissions\/[^/]+$/.test(pathname);
+    const isDiagnostics = req.method === "GET" &&
+      pathname.endsWith("/diagnostics");
+
+    // Rate limiting check
+    let route = "submit";
+    if (isReplay) {
+      route = "replay";
+    } else if (isRowsQuery) {
+      route = "rows";
+    } else if (isStatusQuery) {
+      route = "status";
+    } else if (isDiagnostics) {
+      route = "diagnostics";
+    }
+    const routeLimit = await rateLimiter.check(clientIp, { route });
+    if (routeLimit && !routeLimit.allowed) {
+      logger.warn("Rate limit exceeded", { clientIp });
+      return tooManyRequestsResponse(routeLimit);
+    }
+
+    // Admin route for re-driving submissions that failed to reach the sheet
+    if (isReplay) {
+      return await handleReplayRequest(req);
+    }
+
+    // Admin route for reading submitted rows back
+    if (isRowsQuery) {
+      return await handleRowsRequest(req);
+    }
+
+    // Status of a submission accepted for background writing
+    if (isStatusQuery) {
+      return await handleStatusRequest(req, submissionStore);
+    }
+
+    // Admin route checking credentials, sharing, tabs and header rows
+    if (isDiagnostics) {
+      return await handleDiagnosticsRequest(req);
+    }
+
+    // Validate request format and authorization
+    const validation = await validateRequest(req);
+    if (!validation.success) {
+      logger.error("Request validation failed");
+      return validation.response as Response;
+    }
+    const client = validation.client as ApiClient;
+    logger.info("Request authenticated", {
+      apiKeyName: client.name,
+      method: client.method,
+    });
+
+    // Parse the request body
+    let requestBody: RequestData;
+    try {
+      requestBody = await req.json();
+      logger.debug("Parsed request body", { body: requestBody });
+    } catch (parseError) {
+      logger.error("Failed to parse request body as JSON", {
+        error: parseError,
+      });
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON in request body",
+          details: (parseError as Error).message,
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // Get the spreadsheet and tabs of each data type from the environment
+    const sheetRoutes = loadSheetRoutes();
+    if (!sheetRoutes.success || !sheetRoutes.routes) {
+      return new Response(
+        JSON.stringify({
+          error: `Server configuration error: ${sheetRoutes.error}`,
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+    const routes = sheetRoutes.routes;
+
+    // Batch mode: many records of mixed data types in one request
+    if (requestBody.records !== undefined) {
+      const records = requestBody.records;
+      if (
+        !Array.isArray(records) || records.length === 0 ||
+        records.length > MAX_BATCH_RECORDS
+      ) {
+        logger.error("Invalid records property in batch request");
+        return new Response(
+          JSON.stringify({
+            error:
+              `records must be an array of 1 to ${MAX_BATCH_RECORDS} data objects`,
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      logger.info("Processing batch", { count: records.length });
+      // Records without a data type fail validation on their own below
+      const dataTypes = new Set(
+        records
+          .map((record) => record?.dataType)
+          .filter((dataType) => typeof dataType === "string"),
+      );
+      const forbiddenDataTypes = [...dataTypes].filter((dataType) =>
+        !isDataTypeAllowed(client, dataType)
+      );
+      if (forbiddenDataTypes.length > 0) {
+        return dataTypeNotAllowedResponse(client, forbiddenDataTypes);
+      }
+
+      for (const dataType of dataTypes) {
+        const dataTypeLimit = await rateLimiter.check(clientIp, { dataType });
+        if (dataTypeLimit && !dataTypeLimit.allowed) {
+          logger.warn("Data type rate limit exceeded", {
+            dataType,
+            clientIp,
+          });
+          return tooManyRequestsResponse(dataTypeLimit);
+        }
+      }
+
+      const batchKey = await getIdempotencyKey(req, records, client.name);
+      const claim = await idempotencyStore.claim(batchKey, "batch");
+      if (claim.state !== "claimed") {
+        return idempotentReplayResponse(claim);
+      }
+      idempotencyKey = batchKey.key;
+
+      const outcome = await processBatch(records, routes, notifier, {
+        captchaVerifier,
+        clientIp,
+      });
+      // A retry of a partly written batch would duplicate the written records,
+      // so only a batch that wrote nothing can be retried
+      if (outcome.queuedForReplay || outcome.body.succeeded > 0) {
+        await idempotencyStore.complete(
+          idempotencyKey,
+          outcome.status,
+          outcome.body,
+        );
+      } else {
+        await idempotencyStore.release(idempotencyKey);
+      }
+
+      return new Response(
+        JSON.stringify({ ...outcome.body, replayed: false }),
+        {
+          status: outcome.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // Check if we have a data property
+    if (!requestBody.data) {
+      logger.error("Missing required property: data");
+      return new Response(
+        JSON.stringify({
+          error: "Missing required property: data",
+          receivedParams: Object.keys(requestBody),
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // Process data based on dataType
+    const data = requestBody.data;
+    logger.info("Processing submission", { dataType: data.dataType });
+
+    if (!isDataTypeAllowed(client, data.dataType)) {
+      return dataTypeNotAllowedResponse(client, [data.dataType]);
+    }
+
+    const dataTypeLimit = await rateLimiter.check(clientIp, {
+      dataType: data.dataType,
+    });
+    if (dataTypeLimit && !dataTypeLimit.allowed) {
+      logger.warn("Data type rate limit exceeded", {
+        dataType: data.dataType,
+        clientIp,
+      });
+      return tooManyRequestsResponse(dataTypeLimit);
+    }
+
+    const preparation = prepareSubmission(data, new Date().toISOString());
+    if (!preparation.success || !preparation.submission) {
+      return new Response(
+        JSON.stringify({
+          error: preparation.error,
+          ...(preparation.errors ? { errors: preparation.errors } : {}),
+        }),
+        {
+          status: preparation.errors ? 422 : 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+    // Suspected spam is written to the quarantine tab instead
+    const submission = await screenSubmission(data, preparation.submission, {
+      captchaVerifier,
+      clientIp,
+    });
+
+    // Return the original result instead of appending a repeated submission
+    const submissionKey = await getIdempotencyKey(req, data, client.name);
+    const claim = await idempotencyStore.claim(submissionKey, data.dataType);
+    if (claim.state !== "claimed") {
+      // Not ours to release: the key belongs to an earlier request
+      return idempotentReplayResponse(claim);
+    }
+    idempotencyKey = submissionKey.key;
+
+    logger.debug("Processed data", {
+      dataType: submission.definition.dataType,
+      row: submission.row,
+    });
+
+    // Accept now and write to the sheet after responding
+    if (wantsAsyncWrite(req)) {
+      let submissionId: string | undefined;
+      try {
+        submissionId = await submissionStore.create({
+          dataType: submission.definition.dataType,
+          tabName: getSheetTargets(
+            routes,
+            submission.definition.dataType,
+            submission.tabName,
+          )[0].tabName,
+          row: submission.row,
+        });
+      } catch (error) {
+        // Without a stored submission the caller could never learn the result
+        logger.error("Failed to queue submission, writing it now", { error });
+      }
+
+      if (submissionId) {
+        const acceptedBody = {
+          success: true,
+          message: "Submission accepted",
+          submissionId,
+          status: "queued",
+        } satisfies Omit<AcceptedResponse, "replayed">;
+        await idempotencyStore.complete(idempotencyKey, 202, acceptedBody);
+        logger.info("Submission queued", { submissionId });
+
+        await useEdgeRuntimeWaitUntil(
+          writeQueuedSubmission(
+            submissionStore,
+            submissionId,
+            routes,
+            submission,
+            notifier,
+          ),
+        );
+        return new Response(
+          JSON.stringify({ ...acceptedBody, replayed: false }),
+          {
+            status: 202,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    const outcome = await writeRoutedSubmission(routes, submission, notifier);
+    const retries = outcome.retries ?? 0;
+    if (!outcome.success && outcome.failure) {
+      const { failure, queuedForReplay } = outcome;
+      const failureBody = { ...failure.body, queuedForReplay, retries };
+      if (queuedForReplay) {
+        // A retry must not append again once the stored rows are replayed
+        await idempotencyStore.complete(
+          idempotencyKey,
+          failure.status,
+          failureBody,
+        );
+      } else {
+        await idempotencyStore.release(idempotencyKey);
+      }
+
+      const retryAfter = failure.body.retryAfterSeconds;
+      return new Response(
+        JSON.stringify({ ...failureBody, replayed: false }),
+        {
+          status: failure.status,
+          headers: {
+            ...corsHeaders,
+            ...(retryAfter ? { "Retry-After": String(retryAfter) } : {}),
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+
+    // Return success response
+    logger.info("Operation completed successfully");
+    const operation = outcome.operations?.[0] ?? "appended";
+    const responseBody = {
+      success: true,
+      message: operation === "updated"
+        ? "Existing row updated successfully"
+        : "Data appended successfully",
+      operation,
+      retries,
+    } satisfies Omit<SubmitResponse, "replayed">;
+    await idempotencyStore.complete(idempotencyKey, 200, responseBody);
+
+    return new Response(
+      JSON.stringify({ ...responseBody, replayed: false }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    if (idempotencyKey) {
+      await idempotencyStore.release(idempotencyKey);
+    }
+
+    // Notify admin about the error
+    const typedError = error as Error;
+    const errorMessage = typedError.message;
+    logger.error("Unexpected error", { error: typedError });
+
+    // Use our helper function for EdgeRuntime waitUntil
+    await useEdgeRuntimeWaitUntil(
+      notifier.notify({
+        severity: "critical",
+        title: "Unexpected error in update-colorworks-google-sheet function",
+        message: errorMessage,
+        errorClass: typedError.name,
+      }),
+    );
+
+    return new Response(
+      JSON.stringify({
+        error: `Unexpected error: ${errorMessage}`,
+        details: typedError.stack,
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+}
+
+/**
+ * Creates the request handler served by the function. Tests create their own
+ * handler with an in-memory rate limiter.
+ */
+export const createHandler = (
+  {
+    rateLimiter = createRateLimiter(),
+    corsPolicy = loadCorsPolicy(),
+    captchaVerifier = createDefaultCaptchaVerifier(),
+    notifier = createDefaultNotifier(),
+    submissionStore = createDefaultSubmissionStore(),
+    idempotencyStore = createDefaultIdempotencyStore(),
+  }: HandlerOptions = {},
+) =>
+async (req: Request): Promise<Response> => {
+  // Ties together every log line of a request; echoed back to the caller
+  const requestId =
+    req.headers.get("x-request-id")?.slice(0, MAX_REQUEST_ID_LENGTH) ||
+    crypto.randomUUID();
+
+  const response = await runWithLogContext(
+    { requestId },
+    () =>
+      handleRequest(req, {
+        rateLimiter,
+        corsPolicy,
+        captchaVerifier,
+        notifier,
+        submissionStore,
+        idempotencyStore,
+      }),
+  );
+
+  const headers = {
+    ...getCorsOriginHeaders(req.headers.get("origin"), corsPolicy),
+    "X-Request-Id": requestId,
+  };
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+};
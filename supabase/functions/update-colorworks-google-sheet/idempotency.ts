@@ -0,0 +1,262 @@
+import { logger } from "../_shared/logger.ts";
+import { supabaseRest } from "../_shared/supabase-rest.ts";
+
+const TABLE = "submission_idempotency_keys";
+const DEFAULT_WINDOW_SECONDS = 3600;
+
+// Pending claims outlive any request; longer ones were left by a crashed isolate
+const DEFAULT_PENDING_SECONDS = 300;
+
+// Row of the submission_idempotency_keys table
+type IdempotencyRecord = {
+  key: string;
+  data_type: string;
+  // SHA-256 of the submitted data, to spot keys reused for other data
+  payload_hash: string | null;
+  status: "pending" | "completed";
+  status_code: number | null;
+  response: Record<string, unknown> | null;
+  created_at: string;
+};
+
+export type IdempotencyClaim =
+  | { state: "claimed" }
+  | { state: "in-progress" }
+  // The key was used for different data
+  | { state: "mismatch" }
+  | {
+    state: "completed";
+    statusCode: number;
+    response: Record<string, unknown>;
+  };
+
+// Key for a request and the hash of its data
+export type IdempotencyKey = { key: string; payloadHash: string };
+
+// Remembers the outcome of each key so repeats get the same response
+export type IdempotencyStore = {
+  /**
+   * Reserves the key for this request, or reports the stored outcome of an
+   * earlier request with the same key inside the idempotency window
+   */
+  claim: (
+    key: IdempotencyKey,
+    dataType: string,
+  ) => Promise<IdempotencyClaim>;
+  // Stores the response so repeats of this key get the same result
+  complete: (
+    key: string,
+    statusCode: number,
+    response: Record<string, unknown>,
+  ) => Promise<void>;
+  // Releases a claim whose request did not complete so the caller can retry
+  release: (key: string) => Promise<void>;
+};
+
+const getSecondsMs = (variable: string, fallback: number): number => {
+  const configured = Number(Deno.env.get(variable));
+  const seconds = Number.isFinite(configured) && configured > 0
+    ? configured
+    : fallback;
+  return seconds * 1000;
+};
+
+// IDEMPOTENCY_WINDOW_SECONDS; repeated submissions within an hour are replays
+const getWindowMs = (): number =>
+  getSecondsMs("IDEMPOTENCY_WINDOW_SECONDS", DEFAULT_WINDOW_SECONDS);
+
+// IDEMPOTENCY_PENDING_SECONDS; after this a claim that never completed expires
+const getPendingMs = (): number =>
+  getSecondsMs("IDEMPOTENCY_PENDING_SECONDS", DEFAULT_PENDING_SECONDS);
+
+// JSON with object keys sorted so field order does not change the hash
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) =>
+        `${JSON.stringify(key)}:${stableStringify(entry)}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+/**
+ * Uses the caller's Idempotency-Key header when present, otherwise a SHA-256
+ * hash of the submitted data so identical double submissions collapse. Keys
+ * are scoped to the API client, so clients cannot see each other's results.
+ */
+export const getIdempotencyKey = async (
+  req: Request,
+  payload: unknown,
+  clientName: string,
+): Promise<IdempotencyKey> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(stableStringify(payload)),
+  );
+  const payloadHash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+  const headerKey = req.headers.get("idempotency-key")?.trim();
+  return {
+    key: headerKey
+      ? `key:${clientName}:${headerKey}`
+      : `hash:${clientName}:${payloadHash}`,
+    payloadHash,
+  };
+};
+
+/**
+ * In-memory store, per isolate, for tests. Claims are atomic because nothing
+ * is awaited between reading and writing a key.
+ */
+export const createMemoryIdempotencyStore = (
+  now: () => number = Date.now,
+): IdempotencyStore => {
+  const records = new Map<
+    string,
+    {
+      payloadHash: string;
+      createdAt: number;
+      completed?: { statusCode: number; response: Record<string, unknown> };
+    }
+  >();
+
+  return {
+    claim: ({ key, payloadHash }) => {
+      const record = records.get(key);
+      const age = record ? now() - record.createdAt : 0;
+      const expired = record &&
+        (age > getWindowMs() || (!record.completed && age > getPendingMs()));
+      if (!record || expired) {
+        records.set(key, { payloadHash, createdAt: now() });
+        return Promise.resolve({ state: "claimed" });
+      }
+      if (record.payloadHash !== payloadHash) {
+        return Promise.resolve({ state: "mismatch" });
+      }
+      return Promise.resolve(
+        record.completed
+          ? { state: "completed", ...record.completed }
+          : { state: "in-progress" },
+      );
+    },
+    complete: (key, statusCode, response) => {
+      const record = records.get(key);
+      if (record) {
+        record.completed = { statusCode, response };
+      }
+      return Promise.resolve();
+    },
+    release: (key) => {
+      records.delete(key);
+      return Promise.resolve();
+    },
+  };
+};
+
+/**
+ * Store shared by all isolates, backed by the submission_idempotency_keys
+ * table. Fails open when the database is unavailable so submissions still go
+ * through.
+ */
+export const createPostgresIdempotencyStore = (): IdempotencyStore => ({
+  claim: async ({ key, payloadHash }, dataType) => {
+    const keyFilter = `key=eq.${encodeURIComponent(key)}`;
+    const windowStart = new Date(Date.now() - getWindowMs()).toISOString();
+    const pendingStart = new Date(Date.now() - getPendingMs()).toISOString();
+
+    try {
+      // Drop an expired claim for this key so it can be taken again
+      await supabaseRest(
+        `${TABLE}?${keyFilter}&or=(created_at.lt.${windowStart},and(status.eq.pending,created_at.lt.${pendingStart}))`,
+        { method: "DELETE" },
+      );
+
+      const inserted = await supabaseRest<IdempotencyRecord[]>(TABLE, {
+        method: "POST",
+        headers: {
+          Prefer: "resolution=ignore-duplicates,return=representation",
+        },
+        body: JSON.stringify({
+          key,
+          data_type: dataType,
+          payload_hash: payloadHash,
+        }),
+      });
+      if (inserted && inserted.length > 0) {
+        return { state: "claimed" };
+      }
+
+      const existing = await supabaseRest<IdempotencyRecord[]>(
+        `${TABLE}?${keyFilter}&select=*`,
+      );
+      const record = existing?.[0];
+      if (record?.payload_hash && record.payload_hash !== payloadHash) {
+        logger.warn("Idempotency key reused for different data", { key });
+        return { state: "mismatch" };
+      }
+      if (
+        record?.status === "completed" && record.status_code &&
+        record.response
+      ) {
+        logger.info("Idempotency key already completed", { key });
+        return {
+          state: "completed",
+          statusCode: record.status_code,
+          response: record.response,
+        };
+      }
+
+      logger.warn("Idempotency key is still being processed", { key });
+      return { state: "in-progress" };
+    } catch (error) {
+      logger.error("Idempotency check failed, processing submission anyway", {
+        error,
+      });
+      return { state: "claimed" };
+    }
+  },
+  complete: async (key, statusCode, response) => {
+    try {
+      await supabaseRest(`${TABLE}?key=eq.${encodeURIComponent(key)}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          status: "completed",
+          status_code: statusCode,
+          response,
+        }),
+      });
+    } catch (error) {
+      logger.error("Failed to store idempotent response", { error });
+    }
+  },
+  release: async (key) => {
+    try {
+      await supabaseRest(`${TABLE}?key=eq.${encodeURIComponent(key)}`, {
+        method: "DELETE",
+      });
+    } catch (error) {
+      logger.error("Failed to release idempotency key", { error });
+    }
+  },
+});
+
+/**
+ * Postgres when the database is configured; otherwise every request is
+ * processed, as a per-isolate store would miss most repeats
+ */
+export const createDefaultIdempotencyStore = (): IdempotencyStore =>
+  Deno.env.get("SUPABASE_URL") && Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+    ? createPostgresIdempotencyStore()
+    : {
+      claim: () => Promise.resolve({ state: "claimed" }),
+      complete: () => Promise.resolve(),
+      release: () => Promise.resolve(),
+    };
@@ -0,0 +1,138 @@
+import { logger } from "../_shared/logger.ts";
+import {
+  createNotifier,
+  createSlackChannel,
+  createWebhookChannel,
+  type NotificationChannel,
+} from "../_shared/notifier.ts";
+import type { SheetRowData } from "./data-types/types.ts";
+import type { PreparedSubmission } from "./submission.ts";
+
+// Condition on a column of the formatted row; numbers ignore "$" and ","
+export type LeadAlertRule = {
+  column: string;
+  greaterThan?: number;
+  atLeast?: number;
+  equals?: string;
+};
+
+export type LeadAlertConfig = {
+  // Sales channel's Slack incoming webhook, or any JSON webhook
+  slackWebhookUrl?: string;
+  webhookUrl?: string;
+  // Columns of the row to show; defaults to the data type's alertColumns
+  columns?: string[];
+  // Alert when any rule matches; every new row when there are no rules
+  rules?: LeadAlertRule[];
+  title?: string;
+};
+
+/**
+ * Reads the success alerts from LEAD_ALERTS, JSON mapping a dataType to its
+ * alert, e.g.
+ * {"live-event": {"slackWebhookUrl": "...", "rules": [{"column": "Budget", "greaterThan": 10000}]}}
+ */
+export function loadLeadAlerts(): Record<string, LeadAlertConfig> {
+  const rawAlerts = Deno.env.get("LEAD_ALERTS");
+  if (!rawAlerts) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(rawAlerts) as Record<string, LeadAlertConfig>;
+    if (typeof parsed !== "object" || parsed === null) {
+      throw new Error("LEAD_ALERTS must be a JSON object");
+    }
+    return parsed;
+  } catch (error) {
+    // Writes must not fail because of an alert setting
+    logger.error("Invalid LEAD_ALERTS, sending no lead alerts", { error });
+    return {};
+  }
+}
+
+const toNumber = (value: SheetRowData[string]): number =>
+  typeof value === "number"
+    ? value
+    : Number(String(value ?? "").replace(/[$,\s]/g, "") || Number.NaN);
+
+const matchesRule = (row: SheetRowData, rule: LeadAlertRule): boolean => {
+  const value = row[rule.column];
+  if (rule.equals !== undefined) {
+    return String(value ?? "").trim().toLowerCase() ===
+      rule.equals.trim().toLowerCase();
+  }
+  const number = toNumber(value);
+  if (!Number.isFinite(number)) {
+    return false;
+  }
+  return (rule.greaterThan === undefined || number > rule.greaterThan) &&
+    (rule.atLeast === undefined || number >= rule.atLeast);
+};
+
+/**
+ * Whether a formatted row should be alerted: when any rule matches, or
+ * always without rules
+ */
+export function matchesLeadAlertRules(
+  row: SheetRowData,
+  rules: LeadAlertRule[] = [],
+): boolean {
+  return rules.length === 0 || rules.some((rule) => matchesRule(row, rule));
+}
+
+const createAlertChannels = (
+  config: LeadAlertConfig,
+): NotificationChannel[] => [
+  ...(config.slackWebhookUrl
+    ? [
+      createSlackChannel({
+        webhookUrl: config.slackWebhookUrl,
+        minSeverity: "info",
+      }),
+    ]
+    : []),
+  ...(config.webhookUrl
+    ? [createWebhookChannel({ url: config.webhookUrl, minSeverity: "info" })]
+    : []),
+];
+
+/**
+ * Posts a summary of a newly written row to its data type's alert channel,
+ * built from the same formatted row that was written to the sheet
+ */
+export async function sendLeadAlert(
+  submission: PreparedSubmission,
+  { tabName, rowUrl }: { tabName: string; rowUrl?: string },
+): Promise<void> {
+  const { definition, row } = submission;
+  const config = loadLeadAlerts()[definition.dataType];
+  if (!config || !matchesLeadAlertRules(row, config.rules)) {
+    return;
+  }
+
+  const channels = createAlertChannels(config);
+  if (channels.length === 0) {
+    logger.warn("Lead alert has no channel", {
+      dataType: definition.dataType,
+    });
+    return;
+  }
+
+  const columns = config.columns ?? definition.alertColumns ?? [];
+  const fields = Object.fromEntries(
+    columns.map((column) => [column, String(row[column] ?? "")]),
+  );
+
+  // Every lead is new, so nothing is deduplicated
+  await createNotifier({ channels, dedupWindowSeconds: 0 }).notify({
+    severity: "info",
+    title: config.title ?? `New ${definition.dataType} submission`,
+    message: `A new row was added to ${tabName}.`,
+    dataType: definition.dataType,
+    tabName,
+    fields,
+    url: rowUrl,
+  });
+  logger.info("Lead alert sent", { dataType: definition.dataType });
+}
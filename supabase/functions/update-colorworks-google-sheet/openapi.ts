@@ -0,0 +1,435 @@
+import {
+  FIELD_ERROR_CODES,
+  ROW_OPERATIONS,
+  SUBMISSION_STATES,
+} from "../_shared/form-payloads.ts";
+import { MAX_BATCH_RECORDS } from "./batch.ts";
+import { dataTypeRegistry } from "./data-types/registry.ts";
+import type { DataTypeDefinition } from "./data-types/types.ts";
+import type { FieldRule } from "./data-types/validation.ts";
+
+// Bump the major version with breaking changes to a payload or response
+export const API_VERSION = "1.0.0";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const jsonContent = (schema: Schema) => ({
+  "application/json": { schema },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: jsonContent(ref("ErrorResponse")),
+});
+
+/**
+ * Name of a data type's payload schema, matching its type in
+ * form-payloads.ts, e.g. "live-event" -> "LiveEventData"
+ */
+export const payloadSchemaName = (dataType: string): string =>
+  `${
+    dataType.split("-").map((word) => word[0].toUpperCase() + word.slice(1))
+      .join("")
+  }Data`;
+
+const ruleSchema = (rule: FieldRule): Schema => {
+  switch (rule.type) {
+    case "string":
+      return { type: "string" };
+    case "email":
+      return { type: "string", format: "email" };
+    case "phone":
+      return {
+        type: "string",
+        description:
+          "Phone number, stored in E.164 form; US numbers may omit +1",
+      };
+    case "number":
+      return {
+        type: rule.integer ? "integer" : "number",
+        ...(rule.min !== undefined ? { minimum: rule.min } : {}),
+        ...(rule.max !== undefined ? { maximum: rule.max } : {}),
+      };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "string", description: "ISO 8601 date or date-time" };
+    case "dateRange":
+      return {
+        oneOf: [
+          { type: "string", description: "ISO 8601 date" },
+          {
+            type: "object",
+            required: ["startDate", "endDate"],
+            properties: {
+              startDate: { type: "string" },
+              endDate: { type: "string" },
+            },
+            additionalProperties: false,
+          },
+        ],
+      };
+    case "enum":
+      return { type: "string", enum: rule.values };
+    case "enumList":
+      return { type: "array", items: { type: "string", enum: rule.values } };
+    case "stringList":
+      return { type: "array", items: { type: "string" } };
+    case "object":
+      return { type: "object" };
+  }
+};
+
+// Schema of the fields directly under `prefix`, e.g. "locationInfo."
+const objectSchema = (
+  definition: DataTypeDefinition,
+  prefix: string,
+): Schema => {
+  const rules = definition.fields ?? {};
+  const paths = [
+    ...new Set([...definition.requiredFields, ...Object.keys(rules)]),
+  ].filter((path) =>
+    path.startsWith(prefix) && !path.slice(prefix.length).includes(".")
+  );
+
+  const properties = Object.fromEntries(
+    paths.map((path) => {
+      const rule = rules[path];
+      return [
+        path.slice(prefix.length),
+        rule?.type === "object"
+          ? objectSchema(definition, `${path}.`)
+          : rule
+          ? ruleSchema(rule)
+          : {},
+      ];
+    }),
+  );
+  const required = paths
+    .filter((path) => definition.requiredFields.includes(path))
+    .map((path) => path.slice(prefix.length));
+
+  return {
+    type: "object",
+    ...(required.length > 0 ? { required } : {}),
+    properties,
+    ...(definition.unknownFields === "reject"
+      ? { additionalProperties: false }
+      : {}),
+  };
+};
+
+// Payload schema of a data type, from its required fields and field rules
+const payloadSchema = (definition: DataTypeDefinition): Schema => {
+  const schema = objectSchema(definition, "");
+  const honeypotField = definition.spamProtection?.honeypotField;
+  return {
+    ...schema,
+    required: ["dataType", ...(schema.required as string[] ?? [])],
+    properties: {
+      dataType: { type: "string", enum: [definition.dataType] },
+      ...schema.properties as Schema,
+      ...(definition.spamProtection
+        ? {
+          captchaToken: { type: "string" },
+          formStartedAt: {
+            oneOf: [{ type: "string" }, { type: "number" }],
+            description: "When the form was shown, ISO 8601 or epoch ms",
+          },
+          ...(honeypotField ? { [honeypotField]: { type: "string" } } : {}),
+        }
+        : {}),
+    },
+  };
+};
+
+const responseSchemas: Record<string, Schema> = {
+  FieldError: {
+    type: "object",
+    required: ["field", "code", "message"],
+    properties: {
+      field: { type: "string" },
+      code: { type: "string", enum: [...FIELD_ERROR_CODES] },
+      message: { type: "string" },
+    },
+  },
+  SubmitResponse: {
+    type: "object",
+    required: ["success", "message", "operation", "retries", "replayed"],
+    properties: {
+      success: { type: "boolean", enum: [true] },
+      message: { type: "string" },
+      operation: { type: "string", enum: [...ROW_OPERATIONS] },
+      retries: { type: "integer" },
+      replayed: { type: "boolean" },
+    },
+  },
+  AcceptedResponse: {
+    type: "object",
+    required: ["success", "message", "submissionId", "status", "replayed"],
+    properties: {
+      success: { type: "boolean", enum: [true] },
+      message: { type: "string" },
+      submissionId: { type: "string" },
+      status: { type: "string", enum: ["queued"] },
+      replayed: { type: "boolean" },
+    },
+  },
+  BatchRecordResult: {
+    type: "object",
+    required: ["index", "dataType", "success"],
+    properties: {
+      index: { type: "integer" },
+      dataType: { type: "string" },
+      success: { type: "boolean" },
+      tabName: { type: "string" },
+      operation: { type: "string", enum: [...ROW_OPERATIONS] },
+      error: { type: "string" },
+      errors: { type: "array", items: ref("FieldError") },
+      queuedForReplay: { type: "boolean" },
+    },
+  },
+  BatchResponse: {
+    type: "object",
+    required: [
+      "success",
+      "total",
+      "succeeded",
+      "failed",
+      "retries",
+      "results",
+      "replayed",
+    ],
+    properties: {
+      success: { type: "boolean" },
+      total: { type: "integer" },
+      succeeded: { type: "integer" },
+      failed: { type: "integer" },
+      retries: { type: "integer" },
+      results: { type: "array", items: ref("BatchRecordResult") },
+      replayed: { type: "boolean" },
+    },
+  },
+  SubmissionStatusResponse: {
+    type: "object",
+    required: [
+      "success",
+      "submissionId",
+      "dataType",
+      "tabName",
+      "state",
+      "createdAt",
+      "updatedAt",
+    ],
+    properties: {
+      success: { type: "boolean", enum: [true] },
+      submissionId: { type: "string" },
+      dataType: { type: "string" },
+      tabName: { type: "string" },
+      state: { type: "string", enum: [...SUBMISSION_STATES] },
+      operation: { type: "string", enum: [...ROW_OPERATIONS] },
+      rowNumber: { type: "integer" },
+      rowUrl: { type: "string" },
+      error: { type: "string" },
+      queuedForReplay: { type: "boolean" },
+      createdAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time" },
+    },
+  },
+  ErrorResponse: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: { type: "string" },
+      details: { type: "string" },
+      errors: { type: "array", items: ref("FieldError") },
+      retryAfterSeconds: { type: "integer" },
+      queuedForReplay: { type: "boolean" },
+      retries: { type: "integer" },
+    },
+  },
+};
+
+/**
+ * OpenAPI 3 document of the submission routes, with a payload schema per
+ * registered data type. Served at /openapi.json and kept in openapi.json,
+ * so changes to a payload show up as a diff of that file.
+ */
+export function buildOpenApiDocument(): Schema {
+  const definitions = [...dataTypeRegistry.values()].sort((a, b) =>
+    a.dataType.localeCompare(b.dataType)
+  );
+  const payloadNames = definitions.map((definition) =>
+    payloadSchemaName(definition.dataType)
+  );
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Colorworks Google Sheets API",
+      version: API_VERSION,
+      description:
+        "Writes form submissions to Google Sheets. Every request needs the Supabase anon key as a bearer token; deployments with API_KEYS also need X-Api-Key.",
+    },
+    servers: [{ url: "/functions/v1/update-colorworks-google-sheet" }],
+    security: [{ supabaseAnonKey: [] }, { supabaseAnonKey: [], apiKey: [] }],
+    paths: {
+      "/": {
+        post: {
+          operationId: "submit",
+          summary: "Write one submission, or a batch of records",
+          parameters: [
+            {
+              name: "Idempotency-Key",
+              in: "header",
+              schema: { type: "string" },
+              description:
+                "Repeated requests with the same key return the first result",
+            },
+            {
+              name: "Prefer",
+              in: "header",
+              schema: { type: "string", enum: ["respond-async"] },
+              description: "Answer with 202 and write in the background",
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              oneOf: [
+                {
+                  type: "object",
+                  required: ["data"],
+                  properties: { data: ref("FormPayload") },
+                },
+                {
+                  type: "object",
+                  required: ["records"],
+                  properties: {
+                    records: {
+                      type: "array",
+                      minItems: 1,
+                      maxItems: MAX_BATCH_RECORDS,
+                      items: ref("FormPayload"),
+                    },
+                  },
+                },
+              ],
+            }),
+          },
+          responses: {
+            "200": {
+              description: "Written, or every record of a batch was written",
+              content: jsonContent({
+                oneOf: [ref("SubmitResponse"), ref("BatchResponse")],
+              }),
+            },
+            "202": {
+              description: "Accepted for writing in the background",
+              content: jsonContent(ref("AcceptedResponse")),
+            },
+            "207": {
+              description: "Some records of a batch failed",
+              content: jsonContent(ref("BatchResponse")),
+            },
+            "400": errorResponse("Malformed request or unknown data type"),
+            "401": errorResponse("Missing or invalid credentials"),
+            "403": errorResponse("API key may not submit this data type"),
+            "409": errorResponse("Same Idempotency-Key still in progress"),
+            "422": {
+              description:
+                "Invalid fields, listed per field, or an Idempotency-Key reused for different data",
+              content: jsonContent({
+                oneOf: [ref("ErrorResponse"), ref("BatchResponse")],
+              }),
+            },
+            "429": errorResponse("Rate limited; see Retry-After"),
+            "500": errorResponse("The write failed"),
+            "503": errorResponse(
+              "Google Sheets is unavailable; see Retry-After",
+            ),
+          },
+        },
+      },
+      "/submissions/{submissionId}": {
+        get: {
+          operationId: "getSubmissionStatus",
+          summary: "Status of a submission accepted with 202",
+          parameters: [
+            {
+              name: "submissionId",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Current status",
+              content: jsonContent(ref("SubmissionStatusResponse")),
+            },
+            "404": errorResponse("Unknown submission"),
+          },
+        },
+      },
+      "/health": {
+        get: {
+          operationId: "getHealth",
+          summary: "Liveness for uptime monitors",
+          security: [],
+          responses: {
+            "200": { description: "Healthy" },
+            "503": { description: "A service account key is invalid" },
+          },
+        },
+      },
+      "/openapi.json": {
+        get: {
+          operationId: "getOpenApiDocument",
+          summary: "This document",
+          security: [],
+          responses: { "200": { description: "OpenAPI 3 document" } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        supabaseAnonKey: { type: "http", scheme: "bearer" },
+        apiKey: { type: "apiKey", in: "header", name: "X-Api-Key" },
+      },
+      schemas: {
+        FormPayload: {
+          oneOf: payloadNames.map(ref),
+          discriminator: {
+            propertyName: "dataType",
+            mapping: Object.fromEntries(
+              definitions.map((definition, index) => [
+                definition.dataType,
+                `#/components/schemas/${payloadNames[index]}`,
+              ]),
+            ),
+          },
+        },
+        ...Object.fromEntries(
+          definitions.map((definition, index) => [
+            payloadNames[index],
+            payloadSchema(definition),
+          ]),
+        ),
+        ...responseSchemas,
+      },
+    },
+  };
+}
+
+// Regenerates openapi.json, see the OpenAPI section of the README
+if (import.meta.main) {
+  await Deno.writeTextFile(
+    new URL("./openapi.json", import.meta.url),
+    `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`,
+  );
+}
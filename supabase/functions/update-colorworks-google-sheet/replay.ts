@@ -0,0 +1,146 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { logger } from "../_shared/logger.ts";
+import { validateRequest } from "../_shared/validate-request.ts";
+import {
+  claimPendingSubmissions,
+  markSubmissionReplayed,
+  recordReplayFailure,
+} from "./dead-letter.ts";
+import { getDataTypeDefinition } from "./data-types/registry.ts";
+import { writeRowsToSheet } from "./sheet-writer.ts";
+
+const DEFAULT_REPLAY_LIMIT = 50;
+const MAX_REPLAY_LIMIT = 500;
+
+// IDs end up in a PostgREST filter, so nothing else may get through
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ReplayRequest = {
+  ids?: string[];
+  limit?: number;
+};
+
+type ReplayResult = {
+  id: string;
+  success: boolean;
+  error?: string;
+};
+
+// Checks the IDs and clamps the limit; returns an error message otherwise
+function parseReplayRequest(
+  body: unknown,
+): { ids?: string[]; limit: number } | { error: string } {
+  const { ids, limit } = (body ?? {}) as ReplayRequest;
+  if (
+    ids !== undefined &&
+    !(Array.isArray(ids) &&
+      ids.every((id) => typeof id === "string" && UUID_PATTERN.test(id)))
+  ) {
+    return { error: "ids must be an array of UUIDs" };
+  }
+  if (
+    limit !== undefined &&
+    (typeof limit !== "number" || !Number.isFinite(limit))
+  ) {
+    return { error: "limit must be a number" };
+  }
+  return {
+    ids,
+    limit: Math.min(
+      Math.max(Math.floor(limit ?? DEFAULT_REPLAY_LIMIT), 1),
+      MAX_REPLAY_LIMIT,
+    ),
+  };
+}
+
+/**
+ * Re-drives stored failed submissions into Google Sheets.
+ * Only callers presenting the service role key may trigger a replay.
+ */
+export async function handleReplayRequest(req: Request): Promise<Response> {
+  const validation = await validateRequest(req, {
+    tokenEnvVar: "SUPABASE_SERVICE_ROLE_KEY",
+  });
+  if (!validation.success) {
+    logger.error("Replay request validation failed");
+    return validation.response as Response;
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (parseError) {
+    return new Response(
+      JSON.stringify({
+        error: "Invalid JSON in request body",
+        details: (parseError as Error).message,
+      }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  const replayRequest = parseReplayRequest(body);
+  if ("error" in replayRequest) {
+    return new Response(JSON.stringify({ error: replayRequest.error }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // Claimed rows are not picked up by a replay running at the same time
+  const submissions = await claimPendingSubmissions(replayRequest);
+  logger.info("Replaying failed submissions", {
+    count: submissions.length,
+  });
+
+  const results: ReplayResult[] = [];
+  for (const submission of submissions) {
+    const definition = getDataTypeDefinition(submission.data_type);
+    const result = await writeRowsToSheet(
+      submission.sheet_id,
+      submission.tab_name,
+      [submission.row],
+      {
+        keyColumn: definition?.keyColumn,
+        columns: definition?.columns,
+        maxLengths: definition?.maxLengths,
+      },
+    );
+
+    if (result.success) {
+      await markSubmissionReplayed(submission);
+      results.push({ id: submission.id, success: true });
+    } else {
+      const errorMessage = result.error?.message ?? "Unknown error";
+      logger.error("Replay of submission failed", {
+        id: submission.id,
+        error: result.error,
+      });
+      await recordReplayFailure(submission, errorMessage);
+      results.push({ id: submission.id, success: false, error: errorMessage });
+    }
+  }
+
+  const replayed = results.filter((result) => result.success).length;
+  logger.info("Replay finished", {
+    replayed,
+    failing: results.length - replayed,
+  });
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      replayed,
+      failed: results.length - replayed,
+      results,
+    }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    },
+  );
+}
@@ -0,0 +1,370 @@
+import {
+  ADMIN_SCOPE,
+  type ApiClient,
+  hasScope,
+  isDataTypeAllowed,
+} from "../_shared/api-keys.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  type CellValue,
+  columnLetter,
+  quoteSheetTitle,
+} from "../_shared/google-sheets-client.ts";
+import { logger } from "../_shared/logger.ts";
+import {
+  authorizeSheetsClient,
+  getServiceAccounts,
+} from "../_shared/service-accounts.ts";
+import { validateRequest } from "../_shared/validate-request.ts";
+import { getDataTypeDefinition } from "./data-types/registry.ts";
+import {
+  getSheetTargets,
+  loadSheetRoutes,
+  type SheetTarget,
+} from "./sheet-routes.ts";
+import { loadSpreadsheet } from "./sheet-writer.ts";
+
+const DEFAULT_ROWS_LIMIT = 100;
+const MAX_ROWS_LIMIT = 1000;
+// Rows fetched from Google per read while looking for matches
+const READ_CHUNK_ROWS = 500;
+// Rows scanned per request, so a rare filter cannot read a whole large tab;
+// the page ends early with a cursor to continue from
+const MAX_SCANNED_ROWS = 5000;
+const DEFAULT_DATE_COLUMN = "Submission Date";
+
+export type RowsQuery = {
+  dataType: string;
+  // Column name to the value it must equal, ignoring case
+  filters: Record<string, string>;
+  // Inclusive bounds on the data type's date column, in epoch milliseconds
+  from?: number;
+  to?: number;
+  // Columns to return; all when omitted
+  fields?: string[];
+  limit: number;
+  // Sheet row to start scanning from; row 1 is the header
+  startRow: number;
+};
+
+type RowsQueryResult = { query?: RowsQuery; error?: string };
+
+type ReadRowsResult = {
+  rows: Record<string, CellValue>[];
+  nextCursor: string | null;
+};
+
+const jsonResponse = (body: unknown, status: number): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Opaque to callers; holds the sheet row the next page starts from
+const encodeCursor = (row: number): string => btoa(JSON.stringify({ row }));
+
+const decodeCursor = (cursor: string): number | undefined => {
+  try {
+    const { row } = JSON.parse(atob(cursor)) as { row: unknown };
+    return Number.isSafeInteger(row) && (row as number) >= 2
+      ? row as number
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// A date without a time covers the whole day, so "to" extends to its end
+const parseDateBound = (
+  value: string,
+  bound: "from" | "to",
+): number | undefined => {
+  const time = Date.parse(value);
+  if (!Number.isFinite(time)) {
+    return undefined;
+  }
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return bound === "to" && isDateOnly ? time + 24 * 60 * 60 * 1000 - 1 : time;
+};
+
+/**
+ * Reads the query string of a rows request:
+ * dataType, filter[<Column>]=<value>, from, to, fields, limit and cursor
+ */
+export function parseRowsQuery(params: URLSearchParams): RowsQueryResult {
+  const dataType = params.get("dataType");
+  if (!dataType) {
+    return { error: "Missing required query parameter: dataType" };
+  }
+
+  const filters: Record<string, string> = {};
+  for (const [name, value] of params) {
+    const match = name.match(/^filter\[(.+)\]$/);
+    if (match) {
+      filters[match[1]] = value;
+    }
+  }
+
+  const query: RowsQuery = {
+    dataType,
+    filters,
+    limit: DEFAULT_ROWS_LIMIT,
+    startRow: 2,
+  };
+
+  for (const bound of ["from", "to"] as const) {
+    const value = params.get(bound);
+    if (value) {
+      const time = parseDateBound(value, bound);
+      if (time === undefined) {
+        return { error: `${bound} must be an ISO 8601 date` };
+      }
+      query[bound] = time;
+    }
+  }
+
+  const fields = params.get("fields");
+  if (fields) {
+    query.fields = fields.split(",").map((field) => field.trim()).filter(
+      Boolean,
+    );
+  }
+
+  const limit = params.get("limit");
+  if (limit) {
+    const parsedLimit = Number(limit);
+    if (
+      !Number.isInteger(parsedLimit) || parsedLimit < 1 ||
+      parsedLimit > MAX_ROWS_LIMIT
+    ) {
+      return { error: `limit must be a number from 1 to ${MAX_ROWS_LIMIT}` };
+    }
+    query.limit = parsedLimit;
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor) {
+    const startRow = decodeCursor(cursor);
+    if (startRow === undefined) {
+      return { error: "Invalid cursor" };
+    }
+    query.startRow = startRow;
+  }
+
+  return { query };
+}
+
+const normalizeValue = (value: CellValue | undefined): string =>
+  value === null || value === undefined
+    ? ""
+    : String(value).trim().toLowerCase();
+
+const matchesQuery = (
+  row: Record<string, CellValue>,
+  query: RowsQuery,
+  dateColumn: string,
+): boolean => {
+  for (const [column, value] of Object.entries(query.filters)) {
+    if (normalizeValue(row[column]) !== normalizeValue(value)) {
+      return false;
+    }
+  }
+
+  if (query.from === undefined && query.to === undefined) {
+    return true;
+  }
+  const time = Date.parse(String(row[dateColumn] ?? ""));
+  return Number.isFinite(time) &&
+    (query.from === undefined || time >= query.from) &&
+    (query.to === undefined || time <= query.to);
+};
+
+/**
+ * Reads a tab in chunks from the query's start row until a page of matching
+ * rows is found, the tab ends or MAX_SCANNED_ROWS were scanned. The cursor is
+ * returned whenever rows remain, so a page may hold fewer rows than the limit.
+ * Rows are keyed by header name.
+ */
+async function readRows(
+  { sheetId, tabName }: SheetTarget,
+  dateColumn: string,
+  query: RowsQuery,
+): Promise<ReadRowsResult | { error: string; status: number }> {
+  const { client } = await authorizeSheetsClient(
+    (await getServiceAccounts()).forSpreadsheet(sheetId),
+  );
+
+  const { spreadsheet } = await loadSpreadsheet(client, sheetId, tabName);
+  if (
+    !spreadsheet.sheets.some((sheet) => sheet.properties.title === tabName)
+  ) {
+    return { error: `Tab "${tabName}" not found`, status: 404 };
+  }
+
+  const tabRange = quoteSheetTitle(tabName);
+  const headerRange = await client.getValues(sheetId, `${tabRange}!1:1`);
+  const headerValues = (headerRange.values?.[0] ?? []).map((header) =>
+    String(header ?? "").trim()
+  );
+
+  const requestedColumns = [
+    ...Object.keys(query.filters),
+    ...(query.fields ?? []),
+  ];
+  const unknownColumns = requestedColumns.filter((column) =>
+    !headerValues.includes(column)
+  );
+  if (unknownColumns.length > 0) {
+    return {
+      error: `Unknown columns: ${[...new Set(unknownColumns)].join(", ")}`,
+      status: 400,
+    };
+  }
+
+  const lastLetter = columnLetter(Math.max(headerValues.length - 1, 0));
+  const returnedColumns = query.fields ?? headerValues.filter(Boolean);
+  const rows: Record<string, CellValue>[] = [];
+
+  let startRow = query.startRow;
+  while (true) {
+    const endRow = startRow + READ_CHUNK_ROWS - 1;
+    const chunk = await client.getValues(
+      sheetId,
+      `${tabRange}!A${startRow}:${lastLetter}${endRow}`,
+    );
+    const chunkRows = chunk.values ?? [];
+
+    for (const [index, cells] of chunkRows.entries()) {
+      if (!cells.some((cell) => cell !== null && cell !== "")) {
+        continue;
+      }
+      const row = Object.fromEntries(
+        headerValues.map((header, column) => [header, cells[column] ?? ""]),
+      );
+      if (!matchesQuery(row, query, dateColumn)) {
+        continue;
+      }
+
+      rows.push(
+        Object.fromEntries(
+          returnedColumns.map((column) => [column, row[column]]),
+        ),
+      );
+      if (rows.length === query.limit) {
+        return { rows, nextCursor: encodeCursor(startRow + index + 1) };
+      }
+    }
+
+    // Google omits trailing empty rows, so a short chunk is the end of the tab
+    if (chunkRows.length < READ_CHUNK_ROWS) {
+      return { rows, nextCursor: null };
+    }
+    startRow = endRow + 1;
+    if (startRow - query.startRow >= MAX_SCANNED_ROWS) {
+      return { rows, nextCursor: encodeCursor(startRow) };
+    }
+  }
+}
+
+// 403 for callers without the admin scope or access to the data type
+function forbiddenResponse(client: ApiClient, dataType?: string): Response {
+  logger.warn("API key is not allowed to read rows", {
+    apiKeyName: client.name,
+    dataType,
+  });
+  return jsonResponse(
+    {
+      error: dataType
+        ? `API key "${client.name}" is not allowed to read: ${dataType}`
+        : `API key "${client.name}" does not have the ${ADMIN_SCOPE} scope`,
+    },
+    403,
+  );
+}
+
+/**
+ * Returns rows of a registered data type's tab as JSON, filtered by column
+ * values and date range, one page at a time.
+ * Only admin callers may read rows: the service role key or API keys with
+ * the admin scope, limited to their dataTypes.
+ */
+export async function handleRowsRequest(req: Request): Promise<Response> {
+  const validation = await validateRequest(req, { method: "GET" });
+  if (!validation.success) {
+    logger.error("Rows request validation failed");
+    return validation.response as Response;
+  }
+  const client = validation.client as ApiClient;
+  if (!hasScope(client, ADMIN_SCOPE)) {
+    return forbiddenResponse(client);
+  }
+
+  const { query, error } = parseRowsQuery(new URL(req.url).searchParams);
+  if (!query) {
+    return jsonResponse({ error }, 400);
+  }
+
+  const definition = getDataTypeDefinition(query.dataType);
+  if (!definition) {
+    return jsonResponse({ error: `Unknown dataType: ${query.dataType}` }, 400);
+  }
+  if (!isDataTypeAllowed(client, query.dataType)) {
+    return forbiddenResponse(client, query.dataType);
+  }
+
+  const sheetRoutes = loadSheetRoutes();
+  if (!sheetRoutes.success || !sheetRoutes.routes) {
+    return jsonResponse(
+      { error: `Server configuration error: ${sheetRoutes.error}` },
+      500,
+    );
+  }
+  // Fan-out copies are owned by other teams; read the primary tab
+  const [target] = getSheetTargets(
+    sheetRoutes.routes,
+    definition.dataType,
+    definition.tabName,
+  );
+
+  logger.info("Reading rows", {
+    apiKeyName: client.name,
+    dataType: query.dataType,
+    filters: Object.keys(query.filters),
+    limit: query.limit,
+  });
+
+  try {
+    const result = await readRows(
+      target,
+      definition.dateColumn ?? DEFAULT_DATE_COLUMN,
+      query,
+    );
+    if ("error" in result) {
+      return jsonResponse({ error: result.error }, result.status);
+    }
+
+    logger.info("Rows read", { count: result.rows.length });
+    return jsonResponse(
+      {
+        success: true,
+        dataType: definition.dataType,
+        tabName: target.tabName,
+        rows: result.rows,
+        nextCursor: result.nextCursor,
+      },
+      200,
+    );
+  } catch (error) {
+    logger.error("Failed to read rows", {
+      dataType: query.dataType,
+      error,
+    });
+    return jsonResponse(
+      {
+        error: "Failed to read rows from Google Sheet",
+        details: (error as Error).message,
+      },
+      500,
+    );
+  }
+}
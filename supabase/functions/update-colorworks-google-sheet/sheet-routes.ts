@@ -0,0 +1,122 @@
+import { logger } from "../_shared/logger.ts";
+import { dataTypeRegistry } from "./data-types/registry.ts";
+
+// A tab of a spreadsheet that rows are written to
+export type SheetTarget = {
+  sheetId: string;
+  tabName: string;
+};
+
+// Either part may be omitted to keep the default sheet or the data type's tab
+type SheetRouteConfig = {
+  sheetId?: string;
+  tabName?: string;
+};
+
+export type SheetRoutes = {
+  // COLORWORKS_GOOGLE_SHEET_ID, used by routes without their own sheetId
+  defaultSheetId?: string;
+  // dataType to every tab its rows are written to; the first is the primary
+  routes: Record<string, SheetRouteConfig[]>;
+};
+
+export type SheetRoutesResult = {
+  success: boolean;
+  routes?: SheetRoutes;
+  error?: string;
+};
+
+// Submissions flagged as spam are routed under this name
+export const QUARANTINE_ROUTE = "quarantine";
+
+const isRouteConfig = (value: unknown): value is SheetRouteConfig =>
+  typeof value === "object" && value !== null &&
+  ["sheetId", "tabName"].every((field) => {
+    const fieldValue = (value as Record<string, unknown>)[field];
+    return fieldValue === undefined ||
+      (typeof fieldValue === "string" && fieldValue !== "");
+  });
+
+/**
+ * Reads the per data type routes from SHEET_ROUTES (JSON mapping a dataType
+ * to one route or a list of routes), e.g.
+ * {"live-event": [{"tabName": "Live Events"}, {"sheetId": "...", "tabName": "Leads"}]}
+ * Data types without a route are written to their own tab of the default
+ * sheet. Fails when a data type would have no sheet to write to.
+ */
+export function loadSheetRoutes(): SheetRoutesResult {
+  const defaultSheetId = Deno.env.get("COLORWORKS_GOOGLE_SHEET_ID") ||
+    undefined;
+  const routes: Record<string, SheetRouteConfig[]> = {};
+
+  const rawRoutes = Deno.env.get("SHEET_ROUTES");
+  if (rawRoutes) {
+    try {
+      const parsed = JSON.parse(rawRoutes) as Record<string, unknown>;
+      if (typeof parsed !== "object" || parsed === null) {
+        throw new Error("SHEET_ROUTES must be a JSON object");
+      }
+      for (const [dataType, value] of Object.entries(parsed)) {
+        const entries = Array.isArray(value) ? value : [value];
+        if (entries.length === 0 || !entries.every(isRouteConfig)) {
+          throw new Error(`Invalid routes for ${dataType}`);
+        }
+        routes[dataType] = entries;
+      }
+    } catch (error) {
+      // Rows written to the wrong team's sheet are worse than a failed write
+      logger.error("Invalid SHEET_ROUTES", { error });
+      return { success: false, error: "Invalid SHEET_ROUTES" };
+    }
+  }
+
+  const unknownDataTypes = Object.keys(routes).filter((dataType) =>
+    dataType !== QUARANTINE_ROUTE && !dataTypeRegistry.has(dataType)
+  );
+  if (unknownDataTypes.length > 0) {
+    logger.warn("SHEET_ROUTES has routes for unknown data types", {
+      dataTypes: unknownDataTypes,
+    });
+  }
+
+  if (!defaultSheetId) {
+    const unrouted = [...dataTypeRegistry.keys(), QUARANTINE_ROUTE].filter(
+      (dataType) =>
+        !routes[dataType]?.every((route) => route.sheetId !== undefined),
+    );
+    if (unrouted.length > 0) {
+      logger.error("No sheet ID for data types", { dataTypes: unrouted });
+      return { success: false, error: "Missing sheet ID" };
+    }
+  }
+
+  return { success: true, routes: { defaultSheetId, routes } };
+}
+
+/**
+ * Every tab a data type's rows are written to, primary first. Routes fall
+ * back to the default sheet and to the data type's own tab name.
+ */
+export function getSheetTargets(
+  { defaultSheetId, routes }: SheetRoutes,
+  dataType: string,
+  defaultTabName: string,
+): SheetTarget[] {
+  const targets: SheetTarget[] = [];
+  for (const route of routes[dataType] ?? [{}]) {
+    const target = {
+      sheetId: route.sheetId ?? defaultSheetId ?? "",
+      tabName: route.tabName ?? defaultTabName,
+    };
+    // The same tab listed twice would get every row twice
+    if (
+      !targets.some((existing) =>
+        existing.sheetId === target.sheetId &&
+        existing.tabName === target.tabName
+      )
+    ) {
+      targets.push(target);
+    }
+  }
+  return targets;
+}
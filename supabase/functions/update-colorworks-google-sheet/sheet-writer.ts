@@ -0,0 +1,494 @@
+import { sanitizeRows } from "../_shared/cell-sanitizer.ts";
+import {
+  type CellValue,
+  columnLetter,
+  createRequestDeadline,
+  GoogleSheetsApiError,
+  quoteSheetTitle,
+  type SheetProperties,
+  type SheetsClient,
+  type Spreadsheet,
+  type ValueRange,
+} from "../_shared/google-sheets-client.ts";
+import { logger } from "../_shared/logger.ts";
+import {
+  authorizeSheetsClient,
+  getServiceAccounts,
+  type ServiceAccount,
+} from "../_shared/service-accounts.ts";
+import type { SheetRowData } from "./data-types/types.ts";
+
+// Step of the Google Sheets write that failed
+export type SheetWriteStage =
+  | "credentials"
+  | "auth"
+  | "load"
+  | "access"
+  | "schema"
+  | "write";
+
+// What happened to each row, in the order the rows were given
+export type RowOperation = "appended" | "updated";
+
+// Columns written by the rows but missing from the tab's header row
+export type SchemaDrift = {
+  tabName: string;
+  missingColumns: string[];
+  // Header cells the data type does not write, e.g. a renamed column
+  unknownColumns: string[];
+  resolution: "appended" | "failed";
+};
+
+export type SheetWriteResult = {
+  success: boolean;
+  operations?: RowOperation[];
+  // Sheet row number of each given row, when Google reported it
+  rowNumbers?: (number | undefined)[];
+  // Grid ID of the tab, used in links to its rows
+  sheetGid?: number;
+  drift?: SchemaDrift;
+  // Google API requests retried after transient errors
+  retries?: number;
+  stage?: SheetWriteStage;
+  error?: Error;
+  availableTabs?: string[];
+};
+
+type SheetWriteOptions = {
+  // Column whose value identifies an existing row to update instead of appending
+  keyColumn?: string;
+  // Header row written to new tabs, in column order
+  columns?: string[];
+  // Longest value per column; longer values are truncated
+  maxLengths?: Record<string, number>;
+  // Epoch ms after which no Google request is retried, see
+  // createRequestDeadline
+  deadline?: number;
+};
+
+const DEFAULT_METADATA_TTL_SECONDS = 300;
+
+// Spreadsheet metadata of this isolate by spreadsheet ID
+const spreadsheetCache = new Map<
+  string,
+  { spreadsheet: Spreadsheet; expiresAt: number }
+>();
+
+// SHEET_METADATA_TTL_SECONDS; 0 turns the cache off
+const getMetadataTtlMs = (): number => {
+  const configured = Number(Deno.env.get("SHEET_METADATA_TTL_SECONDS"));
+  return (Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_METADATA_TTL_SECONDS) * 1000;
+};
+
+const findTab = (
+  spreadsheet: Spreadsheet,
+  tabName: string,
+): SheetProperties | undefined =>
+  spreadsheet.sheets
+    .map((sheet) => sheet.properties)
+    .find((properties) => properties.title === tabName);
+
+/**
+ * Spreadsheet metadata, cached per isolate for SHEET_METADATA_TTL_SECONDS.
+ * Returns whether it came from the cache. A tab missing from cached metadata
+ * is looked up again, as it may have been added since.
+ */
+export async function loadSpreadsheet(
+  client: SheetsClient,
+  sheetId: string,
+  tabName?: string,
+): Promise<{ spreadsheet: Spreadsheet; cached: boolean }> {
+  const entry = spreadsheetCache.get(sheetId);
+  if (
+    entry && entry.expiresAt > Date.now() &&
+    (!tabName || findTab(entry.spreadsheet, tabName))
+  ) {
+    logger.debug("Spreadsheet metadata cache hit", { sheetId });
+    return { spreadsheet: entry.spreadsheet, cached: true };
+  }
+
+  const spreadsheet = await client.getSpreadsheet(sheetId);
+  const ttlMs = getMetadataTtlMs();
+  if (ttlMs > 0) {
+    spreadsheetCache.set(sheetId, {
+      spreadsheet,
+      expiresAt: Date.now() + ttlMs,
+    });
+  }
+  return { spreadsheet, cached: false };
+}
+
+// Drops cached metadata that turned out to be stale, e.g. a deleted tab
+export const invalidateSpreadsheet = (sheetId: string): boolean =>
+  spreadsheetCache.delete(sheetId);
+
+// How to handle columns missing from a tab: add them, or refuse to write
+const getSchemaDriftMode = (): "append" | "fail" =>
+  Deno.env.get("SHEET_SCHEMA_DRIFT_MODE") === "fail" ? "fail" : "append";
+
+// Emails and other keys are matched regardless of case, surrounding spaces and
+// the apostrophe that keeps a formula-like key as text
+const normalizeKey = (value: unknown): string =>
+  value === null || value === undefined
+    ? ""
+    : String(value).trim().replace(/^'/, "").toLowerCase();
+
+// Orders a row's values by the tab's header row; null cells are left untouched
+const toCells = (row: SheetRowData, headerValues: string[]): CellValue[] =>
+  headerValues.map((header) => header && header in row ? row[header] : null);
+
+// Grows the tab's grid so a header row of the given width fits
+const ensureColumnCount = async (
+  client: SheetsClient,
+  sheetId: string,
+  sheetProperties: SheetProperties,
+  columnCount: number,
+): Promise<void> => {
+  const current = sheetProperties.gridProperties.columnCount;
+  if (current >= columnCount) {
+    return;
+  }
+  await client.batchUpdate(sheetId, [{
+    appendDimension: {
+      sheetId: sheetProperties.sheetId,
+      dimension: "COLUMNS",
+      length: columnCount - current,
+    },
+  }]);
+  sheetProperties.gridProperties.columnCount = columnCount;
+};
+
+/**
+ * Writes rows to a tab of a Google Sheet, creating the tab with a header row
+ * if it is missing and reconciling the header row with the written columns.
+ * With a key column, rows whose key matches an existing row update it in
+ * place and the rest are appended.
+ * Failures are returned rather than thrown so callers can decide whether to
+ * respond, notify or store the rows for a later replay.
+ */
+export async function writeRowsToSheet(
+  sheetId: string,
+  tabName: string,
+  values: SheetRowData[],
+  options: SheetWriteOptions = {},
+): Promise<SheetWriteResult> {
+  const state = { retries: 0, usedCachedMetadata: false };
+  // A second attempt with fresh metadata shares the first one's deadline
+  const writeOptions = {
+    ...options,
+    deadline: options.deadline ?? createRequestDeadline(),
+  };
+  let result = await writeRows(sheetId, tabName, values, writeOptions, state);
+
+  if (!result.success && state.usedCachedMetadata) {
+    // The tab may have been deleted or renamed since it was cached; nothing
+    // was written before the header row was read
+    invalidateSpreadsheet(sheetId);
+    if (
+      result.stage === "schema" &&
+      result.error instanceof GoogleSheetsApiError &&
+      result.error.status === 400
+    ) {
+      logger.info("Retrying with fresh spreadsheet metadata", { tabName });
+      result = await writeRows(sheetId, tabName, values, writeOptions, state);
+    }
+  }
+  if (state.retries > 0) {
+    logger.info("Google Sheets requests retried", {
+      tabName,
+      retries: state.retries,
+      success: result.success,
+    });
+  }
+  return { ...result, retries: state.retries };
+}
+
+async function writeRows(
+  sheetId: string,
+  tabName: string,
+  values: SheetRowData[],
+  { keyColumn, columns = [], maxLengths, deadline }: SheetWriteOptions,
+  // Counts retried requests and notes whether metadata came from the cache
+  state: { retries: number; usedCachedMetadata: boolean },
+): Promise<SheetWriteResult> {
+  // Each spreadsheet may be written with its own service account
+  let account: ServiceAccount;
+  try {
+    account = (await getServiceAccounts()).forSpreadsheet(sheetId);
+  } catch (credentialsError) {
+    return {
+      success: false,
+      stage: "credentials",
+      error: credentialsError as Error,
+    };
+  }
+
+  // Obtain an access token, falling back to the secondary key if needed
+  let client: SheetsClient;
+  try {
+    const authorized = await authorizeSheetsClient(account, {
+      onRetry: () => state.retries++,
+      deadline,
+    });
+    client = authorized.client;
+    logger.debug("Authenticated with service account", {
+      account: account.name,
+      source: authorized.key.source,
+    });
+  } catch (authError) {
+    logger.error("Authentication failed", { error: authError });
+    return { success: false, stage: "auth", error: authError as Error };
+  }
+
+  let spreadsheet: Spreadsheet;
+  try {
+    const loaded = await loadSpreadsheet(client, sheetId, tabName);
+    spreadsheet = loaded.spreadsheet;
+    state.usedCachedMetadata = loaded.cached;
+    logger.debug("Spreadsheet loaded", {
+      sheetId,
+      title: spreadsheet.properties.title,
+    });
+  } catch (loadError) {
+    logger.error("Failed to load spreadsheet info", {
+      sheetId,
+      error: loadError,
+    });
+    return { success: false, stage: "load", error: loadError as Error };
+  }
+
+  // Every column the rows write, declared columns first
+  const writtenColumns = [
+    ...new Set([...columns, ...values.flatMap((row) => Object.keys(row))]),
+  ];
+  const tabRange = quoteSheetTitle(tabName);
+
+  // Access the specified worksheet (tab), creating it with headers if needed
+  let sheetProperties = findTab(spreadsheet, tabName);
+  let isNewSheet = false;
+  try {
+    if (!sheetProperties) {
+      logger.info("Tab not found, creating it with headers", { tabName });
+      const response = await client.batchUpdate(sheetId, [{
+        addSheet: {
+          properties: {
+            title: tabName,
+            gridProperties: {
+              columnCount: Math.max(26, writtenColumns.length),
+            },
+          },
+        },
+      }]);
+      sheetProperties = (response.replies[0].addSheet as {
+        properties: SheetProperties;
+      }).properties;
+      // Keep cached metadata in step with the new tab
+      spreadsheet.sheets.push({ properties: sheetProperties });
+      await client.batchUpdateValues(sheetId, [
+        { range: `${tabRange}!A1`, values: [writtenColumns] },
+      ]);
+      isNewSheet = true;
+      logger.info("New tab created", { tabName });
+    }
+  } catch (error) {
+    const typedError = error as Error;
+    logger.error("Error accessing sheet", { tabName, error: typedError });
+    return {
+      success: false,
+      stage: "access",
+      error: typedError,
+      availableTabs: spreadsheet.sheets.map((sheet) => sheet.properties.title),
+    };
+  }
+
+  // Make sure every written column has a header, or rows lose those values
+  let headerValues = writtenColumns;
+  let drift: SchemaDrift | undefined;
+  if (!isNewSheet) {
+    try {
+      const headerRange = await client.getValues(sheetId, `${tabRange}!1:1`);
+      headerValues = (headerRange.values?.[0] ?? []).map((header) =>
+        String(header ?? "").trim()
+      );
+      const missingColumns = writtenColumns.filter((column) =>
+        !headerValues.includes(column)
+      );
+
+      if (!headerValues.some(Boolean)) {
+        logger.info("Tab has no header row, writing it", { tabName });
+        headerValues = writtenColumns;
+        await ensureColumnCount(
+          client,
+          sheetId,
+          sheetProperties,
+          headerValues.length,
+        );
+        await client.batchUpdateValues(sheetId, [
+          { range: `${tabRange}!A1`, values: [headerValues] },
+        ]);
+      } else if (missingColumns.length > 0) {
+        const mode = getSchemaDriftMode();
+        drift = {
+          tabName,
+          missingColumns,
+          unknownColumns: headerValues.filter((header) =>
+            header && !writtenColumns.includes(header)
+          ),
+          resolution: mode === "append" ? "appended" : "failed",
+        };
+        logger.warn("Tab is missing columns", { tabName, missingColumns });
+
+        if (mode === "fail") {
+          return {
+            success: false,
+            stage: "schema",
+            drift,
+            error: new Error(
+              `Tab "${tabName}" is missing columns: ${
+                missingColumns.join(", ")
+              }`,
+            ),
+          };
+        }
+
+        headerValues = [...headerValues, ...missingColumns];
+        await ensureColumnCount(
+          client,
+          sheetId,
+          sheetProperties,
+          headerValues.length,
+        );
+        await client.batchUpdateValues(sheetId, [
+          { range: `${tabRange}!A1`, values: [headerValues] },
+        ]);
+        logger.info("Appended missing columns", { tabName });
+      }
+    } catch (error) {
+      const typedError = error as Error;
+      logger.error("Error reconciling header row", {
+        tabName,
+        error: typedError,
+      });
+      return { success: false, stage: "schema", drift, error: typedError };
+    }
+  }
+
+  // Submitted values must never become formulas in the sheet
+  const sanitized = sanitizeRows(values, maxLengths);
+  if (sanitized.alterations.length > 0) {
+    logger.warn("Sanitized row values", {
+      tabName,
+      alterations: sanitized.alterations,
+    });
+  }
+
+  // Update matching rows and append the rest
+  try {
+    const operations: RowOperation[] = [];
+    const rowsToAppend: SheetRowData[] = [];
+    const existingRowNumbers = new Map<string, number>();
+    const rowUpdates = new Map<number, SheetRowData>();
+    const pendingRows = new Map<string, SheetRowData>();
+    const rowNumbers: (number | undefined)[] = [];
+    // Position of each appended given row within rowsToAppend
+    const appendIndexes = new Map<number, number>();
+
+    const keyIndex = keyColumn ? headerValues.indexOf(keyColumn) : -1;
+    if (keyColumn && keyIndex >= 0 && !isNewSheet) {
+      logger.debug("Loading existing rows to match on key column", {
+        keyColumn,
+      });
+      const keyLetter = columnLetter(keyIndex);
+      const keyRange = await client.getValues(
+        sheetId,
+        `${tabRange}!${keyLetter}2:${keyLetter}`,
+      );
+      (keyRange.values ?? []).forEach((cells, index) => {
+        const key = normalizeKey(cells[0]);
+        if (key) {
+          existingRowNumbers.set(key, index + 2); // Data starts on row 2
+        }
+      });
+    }
+
+    for (const rowValues of sanitized.rows) {
+      const key = keyColumn ? normalizeKey(rowValues[keyColumn]) : "";
+      const existingRowNumber = key ? existingRowNumbers.get(key) : undefined;
+      const pendingRow = key ? pendingRows.get(key) : undefined;
+
+      const position = operations.length;
+      if (existingRowNumber) {
+        // Log the row number only; the key is usually an email address
+        logger.info("Updating existing row", {
+          keyColumn,
+          rowNumber: existingRowNumber,
+        });
+        rowUpdates.set(existingRowNumber, {
+          ...rowUpdates.get(existingRowNumber),
+          ...rowValues,
+        });
+        rowNumbers[position] = existingRowNumber;
+        operations.push("updated");
+      } else if (pendingRow) {
+        // Same key twice in one write: keep the latest values in one new row
+        Object.assign(pendingRow, rowValues);
+        appendIndexes.set(position, rowsToAppend.indexOf(pendingRow));
+        operations.push("updated");
+      } else {
+        const newRow = { ...rowValues };
+        appendIndexes.set(position, rowsToAppend.length);
+        rowsToAppend.push(newRow);
+        if (key) {
+          pendingRows.set(key, newRow);
+        }
+        operations.push("appended");
+      }
+    }
+
+    if (rowUpdates.size > 0) {
+      const data: ValueRange[] = [...rowUpdates].map(([rowNumber, row]) => ({
+        range: `${tabRange}!A${rowNumber}`,
+        values: [toCells(row, headerValues)],
+      }));
+      await client.batchUpdateValues(sheetId, data);
+      logger.info("Updated existing rows", { count: rowUpdates.size });
+    }
+
+    if (rowsToAppend.length > 0) {
+      logger.debug("Appending rows to sheet", {
+        count: rowsToAppend.length,
+        firstRow: rowsToAppend[0],
+      });
+      const appended = await client.appendValues(
+        sheetId,
+        `${tabRange}!A1`,
+        rowsToAppend.map((row) => toCells(row, headerValues)),
+      );
+      logger.info("Appended rows", { count: rowsToAppend.length });
+
+      // e.g. 'Live Events'!A12:W13 for two rows appended from row 12
+      const firstRow = Number(
+        appended.updates?.updatedRange?.match(/![A-Z]*(\d+)/)?.[1],
+      );
+      if (firstRow) {
+        for (const [position, appendIndex] of appendIndexes) {
+          rowNumbers[position] = firstRow + appendIndex;
+        }
+      }
+    }
+
+    return {
+      success: true,
+      operations,
+      rowNumbers,
+      sheetGid: sheetProperties.sheetId,
+      drift,
+    };
+  } catch (error) {
+    const typedError = error as Error;
+    logger.error("Error updating sheet", { tabName, error: typedError });
+    return { success: false, stage: "write", error: typedError };
+  }
+}
@@ -0,0 +1,165 @@
+import type { CaptchaVerifier } from "../_shared/captcha.ts";
+import { logger } from "../_shared/logger.ts";
+import type {
+  DataPayload,
+  DataTypeDefinition,
+  SheetRowData,
+} from "./data-types/types.ts";
+import { QUARANTINE_ROUTE } from "./sheet-routes.ts";
+import type { PreparedSubmission } from "./submission.ts";
+
+export type SpamReason =
+  | "honeypot"
+  | "filled-too-fast"
+  | "captcha-missing"
+  | "captcha-failed"
+  | "captcha-unavailable";
+
+export type SpamCheckResult = {
+  spam: boolean;
+  reasons: SpamReason[];
+};
+
+export type SpamCheckContext = {
+  // Without a verifier CAPTCHA tokens are not checked, e.g. locally
+  captchaVerifier?: CaptchaVerifier;
+  clientIp?: string;
+  now?: number;
+};
+
+// Fixed columns, so quarantined rows of every data type share one tab
+const QUARANTINE_COLUMNS = [
+  "Quarantined At",
+  "Data Type",
+  "Reasons",
+  "Submission",
+];
+
+const getQuarantineTabName = (): string =>
+  Deno.env.get("QUARANTINE_TAB_NAME") || "Quarantine";
+
+// Epoch milliseconds from an ISO string or a number of milliseconds
+const parseFormStartedAt = (value: unknown): number | undefined => {
+  const time = typeof value === "number" ? value : Date.parse(String(value));
+  return Number.isFinite(time) ? time : undefined;
+};
+
+/**
+ * Runs the data type's spam checks: the honeypot field, the minimum time
+ * between formStartedAt and the submission, and the CAPTCHA token
+ */
+export async function checkForSpam(
+  data: DataPayload,
+  definition: DataTypeDefinition,
+  { captchaVerifier, clientIp, now = Date.now() }: SpamCheckContext = {},
+): Promise<SpamCheckResult> {
+  const protection = definition.spamProtection;
+  const reasons: SpamReason[] = [];
+  if (!protection) {
+    return { spam: false, reasons };
+  }
+
+  const honeypotValue = protection.honeypotField
+    ? data[protection.honeypotField]
+    : undefined;
+  if (honeypotValue !== undefined && honeypotValue !== "") {
+    reasons.push("honeypot");
+  }
+
+  // Older form versions do not send formStartedAt; only flag when present
+  const formStartedAt = parseFormStartedAt(data.formStartedAt);
+  if (
+    protection.minimumFillSeconds && formStartedAt !== undefined &&
+    now - formStartedAt < protection.minimumFillSeconds * 1000
+  ) {
+    reasons.push("filled-too-fast");
+  }
+
+  if (protection.captcha && captchaVerifier) {
+    const token = typeof data.captchaToken === "string"
+      ? data.captchaToken
+      : "";
+    if (!token) {
+      reasons.push("captcha-missing");
+    } else {
+      try {
+        const verification = await captchaVerifier.verify(token, clientIp);
+        if (!verification.success) {
+          logger.warn("CAPTCHA token rejected", {
+            errorCodes: verification.errorCodes,
+          });
+          reasons.push("captcha-failed");
+        }
+      } catch (error) {
+        // Quarantining keeps the submission if the provider is down
+        logger.error("CAPTCHA verification unavailable", { error });
+        reasons.push("captcha-unavailable");
+      }
+    }
+  }
+
+  return { spam: reasons.length > 0, reasons };
+}
+
+const quarantineDefinition = (
+  tabName: string,
+): DataTypeDefinition<DataPayload> => ({
+  dataType: QUARANTINE_ROUTE,
+  tabName,
+  requiredFields: [],
+  columns: QUARANTINE_COLUMNS,
+  formatRow: (data, timestamp) => ({
+    "Quarantined At": timestamp,
+    "Data Type": String(data.dataType),
+    "Reasons": String(data.reasons),
+    "Submission": String(data.submission),
+  }),
+});
+
+// Definition of the quarantine tab named by QUARANTINE_TAB_NAME
+export const getQuarantineDefinition = (): DataTypeDefinition<DataPayload> =>
+  quarantineDefinition(getQuarantineTabName());
+
+/**
+ * Redirects a submission suspected of being spam to the quarantine tab, with
+ * its formatted row kept as JSON so it can be restored by hand
+ */
+export function quarantineSubmission(
+  submission: PreparedSubmission,
+  reasons: SpamReason[],
+  timestamp: string,
+): PreparedSubmission {
+  const definition = getQuarantineDefinition();
+  const row: SheetRowData = definition.formatRow({
+    dataType: submission.definition.dataType,
+    reasons: reasons.join(", "),
+    submission: JSON.stringify(submission.row),
+  }, timestamp);
+
+  return { definition, tabName: definition.tabName, row };
+}
+
+/**
+ * Checks a prepared submission for spam, returning it unchanged or redirected
+ * to the quarantine tab
+ */
+export async function screenSubmission(
+  data: DataPayload,
+  submission: PreparedSubmission,
+  context: SpamCheckContext = {},
+): Promise<PreparedSubmission> {
+  const result = await checkForSpam(data, submission.definition, context);
+  if (!result.spam) {
+    return submission;
+  }
+
+  logger.warn("Submission quarantined as suspected spam", {
+    dataType: submission.definition.dataType,
+    reasons: result.reasons,
+  });
+  return quarantineSubmission(
+    submission,
+    result.reasons,
+    new Date(context.now ?? Date.now()).toISOString(),
+  );
+}
@@ -0,0 +1,265 @@
+import { type ApiClient, isDataTypeAllowed } from "../_shared/api-keys.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { logger } from "../_shared/logger.ts";
+import type { Notifier } from "../_shared/notifier.ts";
+import { supabaseRest } from "../_shared/supabase-rest.ts";
+import { validateRequest } from "../_shared/validate-request.ts";
+import type { SheetRowData } from "./data-types/types.ts";
+import type { SheetRoutes } from "./sheet-routes.ts";
+import type { RowOperation } from "./sheet-writer.ts";
+import {
+  type PreparedSubmission,
+  writeRoutedSubmission,
+} from "./submission.ts";
+
+const TABLE = "sheet_submissions";
+
+export type SubmissionState = "queued" | "written" | "failed";
+
+// What the status endpoint reports about an accepted submission
+export type SubmissionStatus = {
+  id: string;
+  dataType: string;
+  tabName: string;
+  state: SubmissionState;
+  operation?: RowOperation;
+  // Row of the primary tab the submission was written to
+  rowNumber?: number;
+  rowUrl?: string;
+  error?: string;
+  // Whether a failed write was stored for replay
+  queuedForReplay?: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type QueuedSubmission = {
+  dataType: string;
+  tabName: string;
+  // Kept so a submission whose background write never ran can be recovered
+  row: SheetRowData;
+};
+
+type StatusChanges = Partial<
+  Omit<SubmissionStatus, "id" | "dataType" | "tabName" | "createdAt">
+>;
+
+// Tracks submissions accepted with 202 until they are written
+export type SubmissionStatusStore = {
+  create: (submission: QueuedSubmission) => Promise<string>;
+  update: (id: string, changes: StatusChanges) => Promise<void>;
+  get: (id: string) => Promise<SubmissionStatus | undefined>;
+};
+
+// Row of the sheet_submissions table
+type SubmissionRecord = {
+  id: string;
+  data_type: string;
+  tab_name: string;
+  status: SubmissionState;
+  operation: RowOperation | null;
+  row_number: number | null;
+  row_url: string | null;
+  error: string | null;
+  queued_for_replay: boolean | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * In-memory store, per isolate. Used for tests and when the database is not
+ * configured; the status is then only visible to the isolate that wrote it.
+ */
+export const createMemorySubmissionStore = (): SubmissionStatusStore => {
+  const statuses = new Map<string, SubmissionStatus>();
+
+  return {
+    create: ({ dataType, tabName }) => {
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+      statuses.set(id, {
+        id,
+        dataType,
+        tabName,
+        state: "queued",
+        createdAt: now,
+        updatedAt: now,
+      });
+      return Promise.resolve(id);
+    },
+    update: (id, changes) => {
+      const status = statuses.get(id);
+      if (status) {
+        statuses.set(id, {
+          ...status,
+          ...changes,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+      return Promise.resolve();
+    },
+    get: (id) => {
+      const status = statuses.get(id);
+      return Promise.resolve(status && { ...status });
+    },
+  };
+};
+
+// Store shared by all isolates, backed by the sheet_submissions table
+export const createPostgresSubmissionStore = (): SubmissionStatusStore => ({
+  create: async ({ dataType, tabName, row }) => {
+    const inserted = await supabaseRest<Pick<SubmissionRecord, "id">[]>(
+      `${TABLE}?select=id`,
+      {
+        method: "POST",
+        headers: { Prefer: "return=representation" },
+        body: JSON.stringify({ data_type: dataType, tab_name: tabName, row }),
+      },
+    );
+    const id = inserted?.[0]?.id;
+    if (!id) {
+      throw new Error(`${TABLE} insert returned no ID`);
+    }
+    return id;
+  },
+  update: async (id, changes) => {
+    await supabaseRest(`${TABLE}?id=eq.${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        status: changes.state,
+        operation: changes.operation,
+        row_number: changes.rowNumber,
+        row_url: changes.rowUrl,
+        error: changes.error,
+        queued_for_replay: changes.queuedForReplay,
+        updated_at: new Date().toISOString(),
+      }),
+    });
+  },
+  get: async (id) => {
+    // Anything else would be rejected by Postgres as an invalid uuid
+    if (!UUID_PATTERN.test(id)) {
+      return undefined;
+    }
+    const records = await supabaseRest<SubmissionRecord[]>(
+      `${TABLE}?id=eq.${id}&select=id,data_type,tab_name,status,operation,row_number,row_url,error,queued_for_replay,created_at,updated_at`,
+    );
+    const record = records?.[0];
+    return record && {
+      id: record.id,
+      dataType: record.data_type,
+      tabName: record.tab_name,
+      state: record.status,
+      operation: record.operation ?? undefined,
+      rowNumber: record.row_number ?? undefined,
+      rowUrl: record.row_url ?? undefined,
+      error: record.error ?? undefined,
+      queuedForReplay: record.queued_for_replay ?? undefined,
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+    };
+  },
+});
+
+// Postgres when the database is configured, otherwise in-memory
+export const createDefaultSubmissionStore = (): SubmissionStatusStore =>
+  Deno.env.get("SUPABASE_URL") && Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+    ? createPostgresSubmissionStore()
+    : createMemorySubmissionStore();
+
+/**
+ * Whether to answer with 202 and write in the background: when the caller
+ * sends "Prefer: respond-async" or ASYNC_SUBMISSIONS is "true"
+ */
+export function wantsAsyncWrite(req: Request): boolean {
+  const prefer = req.headers.get("prefer") ?? "";
+  return /(^|,)\s*respond-async\s*(,|;|$)/i.test(prefer) ||
+    Deno.env.get("ASYNC_SUBMISSIONS") === "true";
+}
+
+/**
+ * Writes an accepted submission and records how it went. Never throws, as it
+ * runs after the response was sent.
+ */
+export async function writeQueuedSubmission(
+  store: SubmissionStatusStore,
+  id: string,
+  routes: SheetRoutes,
+  submission: PreparedSubmission,
+  notifier: Notifier,
+): Promise<void> {
+  try {
+    const outcome = await writeRoutedSubmission(routes, submission, notifier);
+    await store.update(
+      id,
+      outcome.success
+        ? {
+          state: "written",
+          operation: outcome.operations?.[0],
+          rowNumber: outcome.rowNumbers?.[0],
+          rowUrl: outcome.rowUrls?.[0],
+        }
+        : {
+          state: "failed",
+          error: String(outcome.failure?.body.error ?? "Unknown error"),
+          queuedForReplay: outcome.queuedForReplay,
+        },
+    );
+    logger.info("Queued submission processed", {
+      submissionId: id,
+      success: outcome.success,
+    });
+  } catch (error) {
+    logger.error("Queued submission failed", { submissionId: id, error });
+    try {
+      await store.update(id, {
+        state: "failed",
+        error: (error as Error).message,
+        queuedForReplay: false,
+      });
+    } catch (updateError) {
+      logger.error("Failed to record submission status", {
+        submissionId: id,
+        error: updateError,
+      });
+    }
+  }
+}
+
+const jsonResponse = (body: unknown, status: number): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Reports whether a submission accepted with 202 is still queued, was
+ * written (with its row) or failed. Callers may only see data types their
+ * key can submit.
+ */
+export async function handleStatusRequest(
+  req: Request,
+  store: SubmissionStatusStore,
+): Promise<Response> {
+  const validation = await validateRequest(req, { method: "GET" });
+  if (!validation.success) {
+    logger.error("Status request validation failed");
+    return validation.response as Response;
+  }
+  const client = validation.client as ApiClient;
+
+  const id = decodeURIComponent(
+    new URL(req.url).pathname.split("/").pop() ?? "",
+  );
+  const status = await store.get(id);
+  // Not found either way, so other clients' IDs cannot be probed
+  if (!status || !isDataTypeAllowed(client, status.dataType)) {
+    return jsonResponse({ error: "Submission not found" }, 404);
+  }
+
+  const { id: submissionId, ...details } = status;
+  return jsonResponse({ success: true, submissionId, ...details }, 200);
+}
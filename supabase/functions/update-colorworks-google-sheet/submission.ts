@@ -0,0 +1,378 @@
+import { useEdgeRuntimeWaitUntil } from "../_shared/edge-runtime.ts";
+import {
+  createRequestDeadline,
+  spreadsheetRowUrl,
+} from "../_shared/google-sheets-client.ts";
+import { logger } from "../_shared/logger.ts";
+import type { Notifier } from "../_shared/notifier.ts";
+import { CircuitOpenError } from "../_shared/retry.ts";
+import { getDataTypeDefinition } from "./data-types/registry.ts";
+import type {
+  DataPayload,
+  DataTypeDefinition,
+  SheetRowData,
+} from "./data-types/types.ts";
+import {
+  type FieldError,
+  validateSubmission,
+} from "./data-types/validation.ts";
+import { saveFailedSubmission } from "./dead-letter.ts";
+import { sendLeadAlert } from "./lead-alerts.ts";
+import { getSheetTargets, type SheetRoutes } from "./sheet-routes.ts";
+import {
+  type RowOperation,
+  type SchemaDrift,
+  type SheetWriteResult,
+  writeRowsToSheet,
+} from "./sheet-writer.ts";
+
+// A validated payload formatted for its target tab
+export type PreparedSubmission = {
+  definition: DataTypeDefinition;
+  // Tab used by routes that do not name their own
+  tabName: string;
+  row: SheetRowData;
+};
+
+export type PreparationResult = {
+  success: boolean;
+  submission?: PreparedSubmission;
+  error?: string;
+  // Per-field problems, answered with 422 Unprocessable Content
+  errors?: FieldError[];
+};
+
+export type WriteFailure = {
+  status: number;
+  body: Record<string, unknown>;
+  // Alert for the team; omitted for failures reported elsewhere
+  alertMessage?: string;
+};
+
+export type SubmissionWriteOutcome = {
+  success: boolean;
+  operations?: RowOperation[];
+  // Sheet rows and links to them, in the order of the submissions
+  rowNumbers?: (number | undefined)[];
+  rowUrls?: (string | undefined)[];
+  // Google API requests retried after transient errors
+  retries?: number;
+  failure?: WriteFailure;
+  queuedForReplay: boolean;
+};
+
+/**
+ * Looks up the payload's data type, validates its fields and formats the
+ * sheet row from the normalized values
+ */
+export function prepareSubmission(
+  data: DataPayload,
+  timestamp: string,
+): PreparationResult {
+  const definition = getDataTypeDefinition(data.dataType);
+  if (!definition) {
+    logger.error("Unknown data type", { dataType: data.dataType });
+    return { success: false, error: `Unknown data type: ${data.dataType}` };
+  }
+
+  const validation = validateSubmission(definition, data);
+  if (validation.errors.length > 0) {
+    const fields = validation.errors.map((error) => error.field);
+    logger.warn("Invalid submission", {
+      dataType: data.dataType,
+      errors: validation.errors.map(({ field, code }) => ({ field, code })),
+    });
+    return {
+      success: false,
+      error: `Invalid fields: ${[...new Set(fields)].join(", ")}`,
+      errors: validation.errors,
+    };
+  }
+
+  // Create row with exact header names that match the Google Sheet
+  const row = definition.formatRow(validation.data, timestamp);
+
+  // Log the formatted row for debugging; personal fields are redacted
+  logger.debug("Formatted row", { dataType: data.dataType, row });
+
+  return {
+    success: true,
+    submission: { definition, tabName: definition.tabName, row },
+  };
+}
+
+/**
+ * Maps a failed sheet write to the response status, body and alert for the
+ * step that failed
+ */
+export function describeWriteFailure(result: SheetWriteResult): WriteFailure {
+  const errorMessage = result.error?.message ?? "Unknown error";
+
+  // Google kept failing, so writes fail fast until the circuit closes
+  if (result.error instanceof CircuitOpenError) {
+    return {
+      status: 503,
+      body: {
+        error: "Google Sheets is temporarily unavailable, please retry later",
+        retryAfterSeconds: result.error.retryAfterSeconds,
+      },
+      alertMessage:
+        "Google Sheets keeps failing; writes fail fast until it recovers.",
+    };
+  }
+
+  switch (result.stage) {
+    case "credentials":
+      return {
+        status: 500,
+        body: {
+          error: "Failed to load service account credentials",
+          details: errorMessage,
+        },
+        alertMessage: `Google Sheets credentials error: ${errorMessage}`,
+      };
+    case "auth":
+      return {
+        status: 500,
+        body: {
+          error: "Authentication with Google Sheets failed",
+          details: errorMessage,
+        },
+        alertMessage: `Google Sheets authentication error: ${errorMessage}`,
+      };
+    case "load":
+      return {
+        status: 500,
+        body: { error: "Failed to load spreadsheet", details: errorMessage },
+        alertMessage: `Failed to load Google Sheet: ${errorMessage}`,
+      };
+    case "schema":
+      return {
+        status: 500,
+        body: {
+          error: `Sheet columns do not match submission: ${errorMessage}`,
+          missingColumns: result.drift?.missingColumns ?? [],
+        },
+        // Drift is reported separately; other header errors are not
+        alertMessage: result.drift
+          ? undefined
+          : `Failed to update Google Sheet header row: ${errorMessage}`,
+      };
+    case "access":
+      return {
+        status: 400,
+        body: {
+          error: `Error accessing sheet: ${errorMessage}`,
+          availableTabs: result.availableTabs ?? [],
+        },
+      };
+    default:
+      return {
+        status: 500,
+        body: {
+          error: `Error updating sheet: ${errorMessage}`,
+          details: result.error?.stack,
+        },
+        alertMessage: `Error updating Google Sheet: ${errorMessage}`,
+      };
+  }
+}
+
+// Alert describing how a tab's header row drifted from the data type
+export function describeSchemaDrift(drift: SchemaDrift): string {
+  const action = drift.resolution === "appended"
+    ? "The missing columns were appended to the header row."
+    : "The write was rejected; fix the header row and replay the submission.";
+  const unknown = drift.unknownColumns.length > 0
+    ? ` Columns not written by the form (renamed?): ${
+      drift.unknownColumns.join(", ")
+    }.`
+    : "";
+
+  return `Tab "${drift.tabName}" is missing columns: ${
+    drift.missingColumns.join(", ")
+  }.${unknown} ${action}`;
+}
+
+/**
+ * Writes prepared submissions of one data type to one tab in a single call,
+ * upserting on the data type's key column when it declares one. On failure the
+ * rows are stored for replay and the error is reported through the notifier.
+ * Writes of one request share the deadline, so their retries fit its budget.
+ */
+export async function writeSubmissions(
+  sheetId: string,
+  tabName: string,
+  submissions: PreparedSubmission[],
+  notifier: Notifier,
+  deadline: number = createRequestDeadline(),
+): Promise<SubmissionWriteOutcome> {
+  const dataType = submissions[0]?.definition.dataType;
+  // The write options below come from the first submission's definition
+  if (
+    submissions.some((submission) =>
+      submission.definition.dataType !== dataType
+    )
+  ) {
+    throw new Error(
+      `Submissions for ${tabName} must share one data type to be written together`,
+    );
+  }
+  const writeResult = await writeRowsToSheet(
+    sheetId,
+    tabName,
+    submissions.map((submission) => submission.row),
+    {
+      keyColumn: submissions[0]?.definition.keyColumn,
+      columns: submissions[0]?.definition.columns,
+      maxLengths: submissions[0]?.definition.maxLengths,
+      deadline,
+    },
+  );
+
+  if (writeResult.drift) {
+    // Ops edit these sheets by hand; let them know the mapping broke
+    await useEdgeRuntimeWaitUntil(
+      notifier.notify({
+        severity: "warning",
+        title: "Google Sheet header row changed",
+        message: describeSchemaDrift(writeResult.drift),
+        dataType,
+        tabName,
+      }),
+    );
+  }
+
+  if (writeResult.success) {
+    const { sheetGid } = writeResult;
+    return {
+      success: true,
+      operations: writeResult.operations,
+      rowNumbers: writeResult.rowNumbers,
+      rowUrls: writeResult.rowNumbers?.map((rowNumber) =>
+        rowNumber && sheetGid !== undefined
+          ? spreadsheetRowUrl(sheetId, sheetGid, rowNumber)
+          : undefined
+      ),
+      retries: writeResult.retries,
+      queuedForReplay: false,
+    };
+  }
+
+  const failure = describeWriteFailure(writeResult);
+
+  // Keep the rows so they can be replayed once the problem is fixed
+  const deadLetterIds = await Promise.all(
+    submissions.map((submission) =>
+      saveFailedSubmission({
+        dataType: submission.definition.dataType,
+        sheetId,
+        tabName,
+        row: submission.row,
+        error: writeResult.error?.message ?? "Unknown error",
+      })
+    ),
+  );
+
+  if (failure.alertMessage) {
+    // Use our helper function for EdgeRuntime waitUntil
+    await useEdgeRuntimeWaitUntil(
+      notifier.notify({
+        severity: "error",
+        title: "Google Sheets write failed",
+        message: failure.alertMessage,
+        dataType,
+        tabName,
+        errorClass: writeResult.error?.name,
+      }),
+    );
+  }
+
+  return {
+    success: false,
+    failure,
+    retries: writeResult.retries,
+    queuedForReplay: deadLetterIds.every(Boolean),
+  };
+}
+
+/**
+ * Merges the outcomes of writing one submission to several tabs: it succeeds
+ * only if every write did, and reports the primary tab's operations and rows,
+ * the first failure and the retries of all writes
+ */
+export function combineWriteOutcomes(
+  outcomes: SubmissionWriteOutcome[],
+): SubmissionWriteOutcome {
+  const failed = outcomes.filter((outcome) => !outcome.success);
+  const retries = outcomes.reduce(
+    (total, outcome) => total + (outcome.retries ?? 0),
+    0,
+  );
+  if (failed.length === 0) {
+    return {
+      success: true,
+      operations: outcomes[0]?.operations,
+      rowNumbers: outcomes[0]?.rowNumbers,
+      rowUrls: outcomes[0]?.rowUrls,
+      retries,
+      queuedForReplay: false,
+    };
+  }
+
+  return {
+    success: false,
+    failure: failed[0].failure,
+    retries,
+    queuedForReplay: failed.every((outcome) => outcome.queuedForReplay),
+  };
+}
+
+/**
+ * Writes a submission to every tab its data type is routed to, e.g. the
+ * marketing sheet and the sales team's sheet
+ */
+export async function writeRoutedSubmission(
+  routes: SheetRoutes,
+  submission: PreparedSubmission,
+  notifier: Notifier,
+): Promise<SubmissionWriteOutcome> {
+  const targets = getSheetTargets(
+    routes,
+    submission.definition.dataType,
+    submission.tabName,
+  );
+  const outcomes: SubmissionWriteOutcome[] = [];
+  const deadline = createRequestDeadline();
+  for (const target of targets) {
+    outcomes.push(
+      await writeSubmissions(
+        target.sheetId,
+        target.tabName,
+        [submission],
+        notifier,
+        deadline,
+      ),
+    );
+  }
+  const outcome = combineWriteOutcomes(outcomes);
+  await alertNewRow(submission, targets[0].tabName, outcome);
+  return outcome;
+}
+
+/**
+ * Sends the data type's lead alert when a submission added a new row to its
+ * primary tab; updates of an existing row are not new leads
+ */
+export async function alertNewRow(
+  submission: PreparedSubmission,
+  tabName: string,
+  outcome: SubmissionWriteOutcome,
+): Promise<void> {
+  if (!outcome.success || outcome.operations?.[0] !== "appended") {
+    return;
+  }
+  await useEdgeRuntimeWaitUntil(
+    sendLeadAlert(submission, { tabName, rowUrl: outcome.rowUrls?.[0] }),
+  );
+}
@@ -0,0 +1,23 @@
+-- Dead-letter storage for rows that could not be written to Google Sheets.
+-- Rows are replayed by POSTing to /update-colorworks-google-sheet/replay.
+create table if not exists public.failed_sheet_submissions (
+  id uuid primary key default gen_random_uuid(),
+  data_type text not null,
+  sheet_id text not null,
+  tab_name text not null,
+  row jsonb not null,
+  error text not null,
+  attempts integer not null default 1,
+  status text not null default 'pending'
+    check (status in ('pending', 'replayed')),
+  created_at timestamptz not null default now(),
+  last_attempt_at timestamptz not null default now(),
+  replayed_at timestamptz
+);
+
+create index if not exists failed_sheet_submissions_pending_idx
+  on public.failed_sheet_submissions (created_at)
+  where status = 'pending';
+
+-- Only the service role (used by the edge function) may access submissions
+alter table public.failed_sheet_submissions enable row level security;
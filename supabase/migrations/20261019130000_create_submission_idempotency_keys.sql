@@ -0,0 +1,18 @@
+-- Idempotency keys for form submissions. A key is either the caller's
+-- Idempotency-Key header or a hash of the submitted data; repeats inside the
+-- configured window return the stored response instead of appending again.
+create table if not exists public.submission_idempotency_keys (
+  key text primary key,
+  data_type text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'completed')),
+  status_code integer,
+  response jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists submission_idempotency_keys_created_at_idx
+  on public.submission_idempotency_keys (created_at);
+
+-- Only the service role (used by the edge function) may access keys
+alter table public.submission_idempotency_keys enable row level security;
@@ -0,0 +1,42 @@
+-- Fixed-window rate limit counters shared by all edge function isolates
+create table if not exists public.rate_limit_counters (
+  key text primary key,
+  hit_count integer not null,
+  reset_at timestamptz not null
+);
+
+-- Only the service role (used by the edge function) may access counters
+alter table public.rate_limit_counters enable row level security;
+
+-- Records a hit for the key and returns the count in the current window.
+-- Starts a new window when the previous one has expired.
+create or replace function public.rate_limit_hit(
+  p_key text,
+  p_window_seconds integer
+)
+returns table (hit_count integer, reset_at timestamptz)
+language sql
+security definer
+set search_path = public
+as $$
+  -- Evict expired counters so the table does not grow without bound
+  delete from public.rate_limit_counters
+  where rate_limit_counters.reset_at < now() - interval '1 hour';
+
+  insert into public.rate_limit_counters as counters (key, hit_count, reset_at)
+  values (p_key, 1, now() + make_interval(secs => p_window_seconds))
+  on conflict (key) do update set
+    hit_count = case
+      when counters.reset_at <= now() then 1
+      else counters.hit_count + 1
+    end,
+    reset_at = case
+      when counters.reset_at <= now()
+        then now() + make_interval(secs => p_window_seconds)
+      else counters.reset_at
+    end
+  returning counters.hit_count, counters.reset_at;
+$$;
+
+revoke execute on function public.rate_limit_hit(text, integer)
+  from public, anon, authenticated;
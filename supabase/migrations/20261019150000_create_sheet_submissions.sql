@@ -0,0 +1,26 @@
+-- Submissions accepted with 202 and written to Google Sheets in the
+-- background. Their status is read from
+-- GET /update-colorworks-google-sheet/submissions/{id}.
+create table if not exists public.sheet_submissions (
+  id uuid primary key default gen_random_uuid(),
+  data_type text not null,
+  tab_name text not null,
+  row jsonb not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'written', 'failed')),
+  operation text check (operation in ('appended', 'updated')),
+  row_number integer,
+  row_url text,
+  error text,
+  queued_for_replay boolean,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Submissions left queued, e.g. when an instance stopped before writing
+create index if not exists sheet_submissions_queued_idx
+  on public.sheet_submissions (created_at)
+  where status = 'queued';
+
+-- Only the service role (used by the edge function) may access submissions
+alter table public.sheet_submissions enable row level security;
@@ -0,0 +1,9 @@
+-- Hash of the data submitted with each key, so a key reused for different
+-- data is rejected instead of returning the earlier result. Keys stored
+-- before this column existed have no hash and are not checked.
+alter table public.submission_idempotency_keys
+  add column if not exists payload_hash text;
+
+-- Pending claims expire sooner than completed ones
+create index if not exists submission_idempotency_keys_status_created_at_idx
+  on public.submission_idempotency_keys (status, created_at);
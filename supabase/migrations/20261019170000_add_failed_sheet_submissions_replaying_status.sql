@@ -0,0 +1,13 @@
+-- Replays claim rows by moving them to 'replaying' before writing them, so
+-- concurrent replays cannot write the same row twice.
+alter table public.failed_sheet_submissions
+  drop constraint if exists failed_sheet_submissions_status_check;
+
+alter table public.failed_sheet_submissions
+  add constraint failed_sheet_submissions_status_check
+  check (status in ('pending', 'replaying', 'replayed'));
+
+-- Claims left by a crashed replay are found by their last attempt
+create index if not exists failed_sheet_submissions_replaying_idx
+  on public.failed_sheet_submissions (last_attempt_at)
+  where status = 'replaying';